@@ -9,10 +9,13 @@ import {
 import { DecisionMakerTool } from './tools/decision-maker.js';
 import { SequentialThinkingTool } from './tools/sequential-thinking.js';
 import { DecisionAnalyzerTool } from './tools/decision-analyzer.js';
+import { DecisionTreeTool } from './tools/decision-tree.js';
 import { CacheService } from './services/cache.js';
 import { PerformanceMonitor } from './services/performance.js';
 import { RateLimiter } from './services/rate-limiter.js';
 import { createSecurityMiddleware } from './services/security.js';
+import { visualizationService } from './services/visualization.js';
+import { calibrationService, SUCCESS_RATING_THRESHOLD } from './services/calibration.js';
 
 // Global services - simple in-memory approach
 const cache = new CacheService();
@@ -28,6 +31,7 @@ class DecisionMCPServer {
   private decisionMaker!: DecisionMakerTool;
   private sequentialThinking!: SequentialThinkingTool;
   private decisionAnalyzer!: DecisionAnalyzerTool;
+  private decisionTree!: DecisionTreeTool;
   private security = security;
 
   constructor() {
@@ -41,7 +45,8 @@ class DecisionMCPServer {
     // Initialize tools with simple in-memory storage
     this.decisionMaker = new DecisionMakerTool();
     this.sequentialThinking = new SequentialThinkingTool();
-    this.decisionAnalyzer = new DecisionAnalyzerTool();
+    this.decisionAnalyzer = new DecisionAnalyzerTool(async sessionId => (await this.decisionMaker.getSession(sessionId)).data);
+    this.decisionTree = new DecisionTreeTool();
 
     this.setupToolHandlers();
   }
@@ -55,14 +60,131 @@ class DecisionMCPServer {
           // 1. MAKE DECISION - Complete decision workflow
           {
             name: 'make_decision',
-            description: 'Complete decision-making workflow: create session, add criteria/options, evaluate, analyze, and get recommendation',
+            description: 'Complete decision-making workflow: create session, add criteria/options, evaluate, analyze, and get recommendation. Existing sessions can be edited with the action parameter',
             inputSchema: {
               type: 'object',
               properties: {
+                action: {
+                  type: 'string',
+                  enum: ['create', 'create_tree', 'add_criterion', 'update_criterion', 'remove_criterion', 'add_option', 'update_option', 'remove_option', 'add_constraint', 'remove_constraint', 'add_scenario', 'remove_scenario', 'set_payoffs', 'add_collaborator', 'evaluate', 'remove_evaluation', 'start_delphi', 'submit_delphi', 'close_delphi_round', 'elicit_weights', 'analyze', 'record_outcome', 'retrospective', 'list_templates'],
+                  description: 'Action to perform (default: create). list_templates shows the templates create can start from; create_tree builds a decision tree session from nodes; the Delphi actions run anonymous estimation rounds; elicit_weights derives normalised criterion weights; record_outcome and retrospective review a completed decision; other actions edit the session given by sessionId'
+                },
+                templateId: {
+                  type: 'string',
+                  description: 'Template to start from (for create): its criteria are added first, and criteria given by name override them'
+                },
+                nodes: {
+                  type: 'array',
+                  description: 'Decision tree nodes for create_tree; children reference their parent by parentId',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      type: { type: 'string', enum: ['decision', 'chance', 'terminal'] },
+                      label: { type: 'string' },
+                      parentId: { type: 'string', description: 'Omit for the root node' },
+                      probability: { type: 'number', minimum: 0, maximum: 1, description: 'Required for outcomes of chance nodes' },
+                      payoff: { type: 'number', description: 'Required for terminal nodes' },
+                      cost: { type: 'number', description: 'Incurred on taking this branch' }
+                    },
+                    required: ['id', 'type', 'label']
+                  }
+                },
+                sessionId: {
+                  type: 'string',
+                  description: 'ID of an existing decision session (required for non-create actions)'
+                },
+                criterionId: {
+                  type: 'string',
+                  description: 'Criterion ID or name (for update_criterion, remove_criterion, remove_evaluation)'
+                },
+                optionId: {
+                  type: 'string',
+                  description: 'Option ID or name (for update_option, remove_option, evaluate, remove_evaluation, set_payoffs, submit_delphi, record_outcome)'
+                },
+                criterion: {
+                  type: 'object',
+                  description: 'Criterion fields to add or update (for add_criterion, update_criterion)'
+                },
+                option: {
+                  type: 'object',
+                  description: 'Option fields to add or update (for add_option, update_option)'
+                },
+                constraint: {
+                  type: 'object',
+                  description: 'Constraint to add (for add_constraint), same shape as constraints items'
+                },
+                constraintId: {
+                  type: 'string',
+                  description: 'Constraint ID or description (for remove_constraint)'
+                },
+                scenario: {
+                  type: 'object',
+                  description: 'Scenario to add (for add_scenario): { name, description }'
+                },
+                collaborator: {
+                  type: 'object',
+                  description: 'Collaborator to add (for add_collaborator): { id, name, role }'
+                },
+                evaluatorId: {
+                  type: 'string',
+                  description: 'Collaborator ID of the evaluator (for evaluate, remove_evaluation, submit_delphi)'
+                },
+                outcome: {
+                  type: 'object',
+                  description: 'What happened after the decision (for record_outcome); optionId defaults to the recommended option',
+                  properties: {
+                    actualCost: { type: 'number', minimum: 0 },
+                    actualTime: { description: 'Duration such as "4 months", or a number of days' },
+                    successRating: { type: 'number', minimum: 0, maximum: 10 },
+                    notes: { type: 'string' }
+                  }
+                },
+                weighting: {
+                  type: 'object',
+                  description: 'Derive normalised criterion weights instead of setting them directly (for create, elicit_weights). swing: rate each criterion\'s worst-to-best swing 0-100 against the most important (100); rank_order_centroid: rank every criterion; pairwise: AHP matrix in criteria order, reported with its consistency ratio',
+                  properties: {
+                    method: { type: 'string', enum: ['swing', 'rank_order_centroid', 'pairwise'] },
+                    swings: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: { criterionId: { type: 'string', description: 'Criterion ID or name' }, points: { type: 'number', minimum: 0, maximum: 100 } },
+                        required: ['criterionId', 'points']
+                      }
+                    },
+                    ranking: { type: 'array', items: { type: 'string' }, description: 'Criterion IDs or names, most important first' },
+                    comparisons: { type: 'array', items: { type: 'array', items: { type: 'number' } }, description: 'Saaty 1-9 scale' }
+                  },
+                  required: ['method']
+                },
+                maxRounds: {
+                  type: 'number',
+                  minimum: 1,
+                  description: 'Delphi round limit (for start_delphi, default: 3)'
+                },
+                convergenceThreshold: {
+                  type: 'number',
+                  minimum: 0,
+                  description: 'Interquartile range (0-10 scale) at or below which a Delphi estimate has converged (for start_delphi, default: 1.5)'
+                },
+                scenarioId: {
+                  type: 'string',
+                  description: 'Scenario ID or name (for remove_scenario)'
+                },
+                scores: {
+                  type: 'array',
+                  description: 'Scores for the evaluate and submit_delphi actions: { criteriaId, score or distribution, reasoning }',
+                  items: { type: 'object' }
+                },
                 context: {
                   type: 'string',
                   description: 'Context or description of the decision to be made'
                 },
+                deadline: {
+                  type: 'string',
+                  description: 'ISO 8601 date the decision must be made by (for create). Once it passes, the recommendation is the best decision with current information and lists missing evaluations'
+                },
                 criteria: {
                   type: 'array',
                   description: 'Array of evaluation criteria',
@@ -71,10 +193,19 @@ class DecisionMCPServer {
                     properties: {
                       name: { type: 'string' },
                       description: { type: 'string' },
-                      weight: { type: 'number', minimum: 0, maximum: 1 },
-                      type: { type: 'string', enum: ['benefit', 'cost', 'risk', 'feasibility'] }
+                      weight: { type: 'number', minimum: 0, maximum: 1, description: 'Required unless weighting derives the weights' },
+                      type: { type: 'string', enum: ['benefit', 'cost', 'risk', 'feasibility'] },
+                      measure: {
+                        type: 'string',
+                        enum: ['estimatedCost', 'estimatedTime'],
+                        description: 'Score this criterion from the option field instead of hand-entered scores'
+                      },
+                      valueFunction: {
+                        type: 'object',
+                        description: 'Maps measured values to 0-10 utility instead of min-max normalisation: { type: linear, worst, best } | { type: piecewise_linear, points: [{ value, utility }] } | { type: exponential, worst, best, curvature } | { type: threshold, threshold, direction: at_least | at_most }'
+                      }
                     },
-                    required: ['name', 'description', 'weight', 'type']
+                    required: ['name', 'description', 'type']
                   }
                 },
                 options: {
@@ -89,28 +220,110 @@ class DecisionMCPServer {
                       cons: { type: 'array', items: { type: 'string' } },
                       risks: { type: 'array', items: { type: 'string' } },
                       estimatedCost: { type: 'number' },
-                      estimatedTime: { type: 'string' }
+                      estimatedTime: { type: 'string' },
+                      measurements: {
+                        type: 'object',
+                        description: 'Raw measured values keyed by criterion name, normalised into scores automatically',
+                        additionalProperties: { type: 'number' }
+                      }
                     },
                     required: ['name', 'description', 'pros', 'cons', 'risks']
                   }
                 },
+                collaborators: {
+                  type: 'array',
+                  description: 'Evaluators on this decision; the first becomes the owner. Evaluations from collaborators must use their id as evaluatorId',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      name: { type: 'string' },
+                      role: { type: 'string', enum: ['editor', 'viewer'] }
+                    },
+                    required: ['id', 'name']
+                  }
+                },
+                aggregation: {
+                  type: 'string',
+                  enum: ['mean', 'median', 'trimmed_mean'],
+                  description: 'How scores from several evaluators are combined before scoring (default: mean)'
+                },
+                scenarios: {
+                  type: 'array',
+                  description: 'Future scenarios (e.g. demand high / medium / low) for maximin, maximax, Hurwicz, Laplace and minimax regret rankings',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string' },
+                      description: { type: 'string' }
+                    },
+                    required: ['name']
+                  }
+                },
+                payoffs: {
+                  type: 'array',
+                  description: 'Payoff of each option in each scenario. With create, optionId is required on every entry; with set_payoffs it is taken from the top-level optionId',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      optionId: { type: 'string', description: 'Option ID or name' },
+                      scenarioId: { type: 'string', description: 'Scenario ID or name' },
+                      payoff: { type: 'number' }
+                    },
+                    required: ['scenarioId', 'payoff']
+                  }
+                },
+                optimism: {
+                  type: 'number',
+                  minimum: 0,
+                  maximum: 1,
+                  description: 'Hurwicz coefficient of optimism (default: 0.5)'
+                },
+                constraints: {
+                  type: 'array',
+                  description: 'Hard constraints applied before scoring; options failing any are eliminated',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      description: { type: 'string' },
+                      type: { type: 'string', enum: ['max_cost', 'min_cost', 'max_time', 'min_time', 'requires', 'excludes'] },
+                      value: { description: 'Amount for cost, duration (e.g. "3 months") or days for time, phrase for requires/excludes' },
+                      target: { type: 'string', enum: ['pros', 'cons', 'any'], description: 'Text searched by requires (default pros) and excludes (default cons)' }
+                    },
+                    required: ['type', 'value']
+                  }
+                },
                 evaluations: {
                   type: 'array',
-                  description: 'Array of option evaluations (optional - can be auto-generated)',
+                  description: 'Array of option evaluations (optional - unscored pairs are auto-evaluated from pros, cons, risks and estimates)',
                   items: {
                     type: 'object',
                     properties: {
-                      optionId: { type: 'string' },
+                      optionId: { type: 'string', description: 'Option ID or option name' },
+                      evaluatorId: { type: 'string', description: 'Collaborator ID of the evaluator; scores from several evaluators are aggregated' },
                       scores: {
                         type: 'array',
                         items: {
                           type: 'object',
                           properties: {
-                            criteriaId: { type: 'string' },
+                            criteriaId: { type: 'string', description: 'Criterion ID or criterion name' },
                             score: { type: 'number', minimum: 0, maximum: 10 },
+                            distribution: {
+                              type: 'object',
+                              description: 'Uncertain score: { type: "triangular", min, mostLikely, max } or { type: "normal", mean, stddev } on the 0-10 scale',
+                              properties: {
+                                type: { type: 'string', enum: ['triangular', 'normal'] },
+                                min: { type: 'number' },
+                                mostLikely: { type: 'number' },
+                                max: { type: 'number' },
+                                mean: { type: 'number' },
+                                stddev: { type: 'number' }
+                              },
+                              required: ['type']
+                            },
                             reasoning: { type: 'string' }
                           },
-                          required: ['criteriaId', 'score', 'reasoning']
+                          required: ['criteriaId', 'reasoning']
                         }
                       }
                     },
@@ -122,9 +335,38 @@ class DecisionMCPServer {
                   description: 'Minimum confidence threshold for recommendation (default: 0.3)',
                   minimum: 0,
                   maximum: 1
+                },
+                method: {
+                  type: 'string',
+                  enum: ['weighted_sum', 'weighted_product', 'topsis', 'ahp', 'promethee'],
+                  description: 'Multi-criteria scoring method (default: weighted_sum)'
+                },
+                pairwiseComparisons: {
+                  type: 'object',
+                  description: 'AHP pairwise comparison matrices (Saaty 1-9 scale) in the order criteria/options are given',
+                  properties: {
+                    criteria: { type: 'array', items: { type: 'array', items: { type: 'number' } } },
+                    options: {
+                      type: 'object',
+                      description: 'Option comparison matrices keyed by criterion name, over every option in the order added, including any a constraint eliminates',
+                      additionalProperties: { type: 'array', items: { type: 'array', items: { type: 'number' } } }
+                    }
+                  }
+                },
+                compareMethods: {
+                  type: 'boolean',
+                  description: 'Also rank options with every scoring method for comparison (default: false)'
+                },
+                simulation: {
+                  type: 'object',
+                  description: 'Run a Monte Carlo analysis over score distributions',
+                  properties: {
+                    iterations: { type: 'number', description: 'Number of samples (default: 1000, max: 10000)' },
+                    seed: { type: 'number', description: 'Random seed for reproducible results' },
+                    confidence: { type: 'number', enum: [0.9, 0.95, 0.99], description: 'Confidence level (default: 0.95)' }
+                  }
                 }
-              },
-              required: ['context']
+              }
             }
           },
           // 2. ANALYZE DECISION - Deep analysis and alternatives
@@ -157,6 +399,20 @@ class DecisionMCPServer {
                 maxAlternatives: {
                   type: 'number',
                   description: 'Maximum number of alternatives to generate (default: 3)'
+                },
+                includeSensitivity: {
+                  type: 'boolean',
+                  description: 'Include criterion weight sensitivity analysis (default: true)'
+                },
+                sensitivityRange: {
+                  type: 'number',
+                  description: 'Maximum absolute weight change tested per criterion (default: 0.5)',
+                  minimum: 0,
+                  maximum: 1
+                },
+                includeGroup: {
+                  type: 'boolean',
+                  description: 'Include group aggregation (mean, median, trimmed mean, Borda, Copeland) and evaluator disagreement (default: true)'
                 }
               },
               required: ['sessionId']
@@ -179,8 +435,8 @@ class DecisionMCPServer {
                 },
                 action: {
                   type: 'string',
-                  enum: ['start', 'add_thought', 'revise_thought', 'branch', 'analyze', 'conclude'],
-                  description: 'Action to perform (default: start)'
+                  enum: ['start', 'add_thought', 'relate_thoughts', 'revise_thought', 'thought_history', 'branch', 'list_branches', 'get_branch', 'set_branch_status', 'compare_branches', 'merge_branches', 'analyze', 'conclude', 'record_outcome'],
+                  description: 'Action to perform (default: start). relate_thoughts adds typed relations from thoughtId to earlier thoughts; revise_thought keeps the earlier content and marks thoughts built on it stale; thought_history returns every revision with a word-level diff; get_branch returns a branch\'s line of reasoning from the root; set_branch_status marks a branch exploring, abandoned or adopted; compare_branches shows where two branches diverged, agree and contradict; merge_branches folds two branches into a synthesis thought; record_outcome marks whether a concluded session\'s conclusion held up'
                 },
                 sessionId: {
                   type: 'string',
@@ -188,11 +444,66 @@ class DecisionMCPServer {
                 },
                 thought: {
                   type: 'string',
-                  description: 'Thought content (for add_thought action)'
+                  description: 'Thought content (for add_thought action), or the synthesis text for merge_branches (default: each branch\'s latest thought)'
                 },
                 thoughtId: {
                   type: 'string',
-                  description: 'ID of thought to revise or branch from'
+                  description: 'ID of thought to revise or branch from, or the source thought for relate_thoughts'
+                },
+                thoughtType: {
+                  type: 'string',
+                  enum: ['hypothesis', 'evidence', 'assumption', 'question', 'counterargument'],
+                  description: 'What kind of thought this is (for add_thought); untyped thoughts are plain reasoning steps'
+                },
+                relations: {
+                  type: 'array',
+                  description: 'Typed links from the thought to existing thoughts (for add_thought, relate_thoughts). answers must target a question and assumes an assumption',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      type: { type: 'string', enum: ['supports', 'refutes', 'assumes', 'answers'] },
+                      targetId: { type: 'string' }
+                    },
+                    required: ['type', 'targetId']
+                  }
+                },
+                branchId: {
+                  type: 'string',
+                  description: 'Branch to add the thought to (for add_thought) or to receive the synthesis (for merge_branches), or the branch for get_branch and set_branch_status; omit for the main line'
+                },
+                branchIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  minItems: 2,
+                  maxItems: 2,
+                  description: 'The two branches to compare or merge (for compare_branches, merge_branches)'
+                },
+                parentId: {
+                  type: 'string',
+                  description: 'Thought this one follows from (for add_thought, default: the latest thought on the same branch)'
+                },
+                branchStatus: {
+                  type: 'string',
+                  enum: ['exploring', 'abandoned', 'adopted'],
+                  description: 'New branch status (for set_branch_status); only exploring branches accept thoughts'
+                },
+                reason: {
+                  type: 'string',
+                  description: 'Why the thought was revised or the branch status changed (for revise_thought, set_branch_status)'
+                },
+                author: {
+                  type: 'string',
+                  description: 'Who wrote the thought or revision, recorded in its history (for add_thought, revise_thought, merge_branches)'
+                },
+                fromRevision: {
+                  type: 'number',
+                  minimum: 1,
+                  description: 'Revision to diff from (for thought_history, default: the one before toRevision)'
+                },
+                toRevision: {
+                  type: 'number',
+                  minimum: 1,
+                  description: 'Revision to diff to (for thought_history, default: the current revision)'
                 },
                 newThought: {
                   type: 'string',
@@ -206,6 +517,20 @@ class DecisionMCPServer {
                   type: 'string',
                   description: 'Final conclusion (for conclude action)'
                 },
+                confidence: {
+                  type: 'number',
+                  minimum: 0,
+                  maximum: 1,
+                  description: 'Confidence in the conclusion (for conclude action, default: 0.8)'
+                },
+                correct: {
+                  type: 'boolean',
+                  description: 'Whether the conclusion turned out right (for record_outcome action)'
+                },
+                notes: {
+                  type: 'string',
+                  description: 'Notes on the outcome (for record_outcome action)'
+                },
                 maxThoughts: {
                   type: 'number',
                   description: 'Maximum number of thoughts allowed (default: 50)'
@@ -223,8 +548,8 @@ class DecisionMCPServer {
               properties: {
                 action: {
                   type: 'string',
-                  enum: ['get', 'list', 'delete'],
-                  description: 'Action to perform'
+                  enum: ['get', 'list', 'delete', 'calibration'],
+                  description: 'Action to perform. calibration reports how well stated confidence matched recorded outcomes across all sessions'
                 },
                 sessionId: {
                   type: 'string',
@@ -232,7 +557,7 @@ class DecisionMCPServer {
                 },
                 type: {
                   type: 'string',
-                  enum: ['decision', 'thinking', 'all'],
+                  enum: ['decision', 'decision_tree', 'thinking', 'all'],
                   description: 'Type of sessions to manage (default: all)'
                 },
                 status: {
@@ -312,35 +637,80 @@ class DecisionMCPServer {
     return performanceMonitor.measureAsync('handleMakeDecision', async () => {
       // Apply global rate limiting
       globalRateLimiter.isAllowed('global');
+
+      const action = (args.action as string) || 'create';
+      if (action === 'create_tree') {
+        return this.handleCreateDecisionTree(args);
+      }
+      if (action === 'list_templates') {
+        this.security.auditAction('make_decision', 'templates', { action });
+        return this.formatResponse(await this.decisionMaker.listTemplates());
+      }
+      if (action !== 'create') {
+        return this.handleDecisionAction(action, args);
+      }
       
+      if (!args.context) {
+        throw new Error('context is required for create action');
+      }
+
       // Validate and sanitize input
       const context = this.security.validateInput(args.context as string, 'problem');
       const criteria = args.criteria as any[] || [];
       const options = args.options as any[] || [];
       const evaluations = args.evaluations as any[] || [];
+      const constraints = args.constraints as any[] || [];
+      const collaborators = args.collaborators as any[] || [];
+      const aggregation = (args.aggregation as string) || 'mean';
+      const scenarios = args.scenarios as any[] || [];
+      const payoffs = args.payoffs as any[] || [];
+      const optimism = args.optimism as number | undefined;
       const minConfidence = (args.minConfidence as number) || 0.3;
+      const method = (args.method as string) || 'weighted_sum';
+      const pairwiseComparisons = args.pairwiseComparisons as any;
+      const compareMethods = (args.compareMethods as boolean) || false;
+      const simulation = args.simulation as { iterations?: number; seed?: number; confidence?: number } | undefined;
+      const templateId = args.templateId as string | undefined;
+      const weighting = args.weighting as Record<string, unknown> | undefined;
+      const deadline = args.deadline as string | undefined;
 
-      // Start decision session
-      const sessionResult = await this.decisionMaker.startDecision({ context });
+      // Start decision session, seeded with the template's criteria if one is given
+      const sessionResult = await this.decisionMaker.startDecision({ context, templateId, deadline });
       if (!sessionResult.success || !sessionResult.data) {
         return this.formatResponse(sessionResult);
       }
 
       const sessionId = sessionResult.data.id;
+      const templateCriteria = sessionResult.data.criteria as any[];
 
-      // Add criteria
+      // Add criteria; one named like a template criterion overrides it
       for (const criterion of criteria) {
-        await this.decisionMaker.addCriteria({
-          sessionId,
-          name: criterion.name,
-          description: criterion.description,
-          weight: criterion.weight,
-          type: criterion.type
-        });
+        const existing = templateCriteria.find(c => c.name.toLowerCase() === String(criterion.name).trim().toLowerCase());
+        const criterionResult = existing
+          ? await this.decisionMaker.updateCriteria({ sessionId, criterionId: existing.id, updates: criterion })
+          : await this.decisionMaker.addCriteria({
+              sessionId,
+              name: criterion.name,
+              description: criterion.description,
+              weight: criterion.weight ?? 0,
+              type: criterion.type,
+              measure: criterion.measure,
+              valueFunction: criterion.valueFunction
+            });
+        if (!criterionResult.success) {
+          return this.formatResponse({ ...criterionResult, metadata: { sessionId } });
+        }
+      }
+
+      // Derived weights replace any given with the criteria
+      if (weighting) {
+        const weightingResult = await this.decisionMaker.elicitWeights({ sessionId, ...weighting });
+        if (!weightingResult.success) {
+          return this.formatResponse({ ...weightingResult, metadata: { sessionId } });
+        }
       }
 
       // Add options
-      const optionIds: string[] = [];
       for (const option of options) {
         const optionResult = await this.decisionMaker.addOption({
           sessionId,
@@ -350,42 +720,86 @@ class DecisionMCPServer {
           cons: option.cons,
           risks: option.risks,
           estimatedCost: option.estimatedCost,
-          estimatedTime: option.estimatedTime
+          estimatedTime: option.estimatedTime,
+          measurements: option.measurements
         });
-        if (optionResult.success && optionResult.data) {
-          optionIds.push(optionResult.data.id);
+        if (!optionResult.success) {
+          return this.formatResponse({ ...optionResult, metadata: { sessionId } });
         }
       }
 
-      // Auto-generate evaluations if not provided
-      if (evaluations.length === 0 && criteria.length > 0 && optionIds.length > 0) {
-        for (const optionId of optionIds) {
-          const autoScores = criteria.map(criterion => ({
-            score: Math.floor(Math.random() * 4) + 6, // Random score 6-10
-            reasoning: `Auto-generated evaluation for ${criterion.name}`
-          }));
-          await this.decisionMaker.evaluateOption({
-            sessionId,
-            optionId,
-            scores: autoScores
-          });
+      // Register evaluators; the first becomes the owner
+      for (const collaborator of collaborators) {
+        const collaboratorResult = await this.decisionMaker.addCollaborator({ sessionId, ...collaborator });
+        if (!collaboratorResult.success) {
+          return this.formatResponse({ ...collaboratorResult, metadata: { sessionId } });
         }
-      } else {
-        // Use provided evaluations
-        for (const evaluation of evaluations) {
-          await this.decisionMaker.evaluateOption({
-            sessionId,
-            optionId: evaluation.optionId,
-            scores: evaluation.scores
+      }
+
+      // Add hard constraints; an invalid one would silently let failing options through
+      for (const constraint of constraints) {
+        const constraintResult = await this.decisionMaker.addConstraint({ sessionId, ...constraint });
+        if (!constraintResult.success) {
+          return this.formatResponse({ ...constraintResult, metadata: { sessionId } });
+        }
+      }
+
+      // Add scenarios and per-option payoffs for decision rules under uncertainty
+      for (const scenario of scenarios) {
+        const scenarioResult = await this.decisionMaker.addScenario({ sessionId, name: scenario.name, description: scenario.description });
+        if (!scenarioResult.success) {
+          return this.formatResponse({ ...scenarioResult, metadata: { sessionId } });
+        }
+      }
+      const payoffsByOption = new Map<string, any[]>();
+      for (const payoff of payoffs) {
+        payoffsByOption.set(payoff.optionId, [...(payoffsByOption.get(payoff.optionId) || []), payoff]);
+      }
+      for (const [optionId, optionPayoffs] of payoffsByOption) {
+        const payoffResult = await this.decisionMaker.setPayoffs({ sessionId, optionId, payoffs: optionPayoffs });
+        if (!payoffResult.success) {
+          return this.formatResponse({ ...payoffResult, metadata: { sessionId } });
+        }
+      }
+
+      // Use provided evaluations
+      for (const evaluation of evaluations) {
+        const evaluationResult = await this.decisionMaker.evaluateOption({
+          sessionId,
+          optionId: evaluation.optionId,
+          evaluatorId: evaluation.evaluatorId,
+          scores: evaluation.scores
+        });
+        if (!evaluationResult.success) {
+          return this.formatResponse({
+            success: false,
+            error: `Failed to apply evaluation for option ${evaluation.optionId}: ${evaluationResult.error}`,
+            metadata: { sessionId }
           });
         }
       }
 
+      // Fill any unscored option/criterion pairs with flagged heuristic scores
+      const autoEvaluationResult = await this.decisionMaker.autoEvaluate({ sessionId });
+      const autoEvaluatedCount = autoEvaluationResult.success ? autoEvaluationResult.data.length : 0;
+
       // Analyze decision
-      const analysisResult = await this.decisionMaker.analyzeDecision({ sessionId, includeAlternatives: true });
+      const analysisResult = await this.decisionMaker.analyzeDecision({
+        sessionId,
+        includeAlternatives: true,
+        method,
+        pairwiseComparisons,
+        aggregation
+      });
+      const methodComparison = compareMethods
+        ? await this.decisionMaker.compareMethods({ sessionId, pairwiseComparisons })
+        : null;
+      const simulationResult = simulation
+        ? await this.decisionMaker.runMonteCarlo({ sessionId, ...simulation, method })
+        : null;
       
       // Make recommendation
-      const recommendationResult = await this.decisionMaker.makeRecommendation({ sessionId, minConfidence });
+      const recommendationResult = await this.decisionMaker.makeRecommendation({ sessionId, minConfidence, optimism });
 
       // Get final session
       const finalSession = await this.decisionMaker.getSession(sessionId);
@@ -394,27 +808,232 @@ class DecisionMCPServer {
       this.security.auditAction('make_decision', sessionId, { 
         contextLength: context.length,
         criteriaCount: criteria.length,
-        optionsCount: options.length
+        optionsCount: options.length,
+        templateId
       });
 
       return this.formatResponse({
         success: true,
         data: {
           session: finalSession.data,
-          analysis: analysisResult.data,
-          recommendation: recommendationResult.data
+          analysis: analysisResult.success ? analysisResult.data : { error: analysisResult.error },
+          recommendation: recommendationResult.data,
+          methodComparison: methodComparison?.data,
+          simulation: simulationResult && (simulationResult.success ? simulationResult.data : { error: simulationResult.error })
         },
         metadata: {
           message: 'Complete decision workflow executed successfully',
           sessionId,
-          criteriaCount: criteria.length,
+          method,
+          templateId: templateId || null,
+          deadline: finalSession.data?.deadline || null,
+          deadlineWarnings: sessionResult.warnings || [],
+          criteriaCount: finalSession.data?.criteria.length ?? criteria.length,
           optionsCount: options.length,
-          evaluationsCount: evaluations.length
+          evaluationsCount: evaluations.length,
+          autoEvaluatedCount
         }
       });
     });
   }
 
+  private async handleCreateDecisionTree(args: Record<string, unknown>) {
+    if (!args.context) {
+      throw new Error('context is required for create_tree action');
+    }
+    const context = this.security.validateInput(args.context as string, 'problem');
+    const result = await this.decisionTree.createTree({ context, nodes: args.nodes });
+    if (!result.success) {
+      return this.formatResponse(result);
+    }
+
+    const session = result.data;
+    this.security.auditAction('make_decision', session.id, { action: 'create_tree', nodeCount: session.nodes.length });
+
+    return this.formatResponse({
+      success: true,
+      data: {
+        session,
+        diagram: visualizationService.generateDecisionTreeDiagram(session, session.analysis).content
+      },
+      metadata: {
+        sessionId: session.id,
+        expectedValue: session.analysis.expectedValue
+      }
+    });
+  }
+
+  private async handleDecisionAction(action: string, args: Record<string, unknown>) {
+    const sessionId = args.sessionId as string;
+    if (!sessionId) {
+      throw new Error(`sessionId is required for ${action} action`);
+    }
+
+    const criterionId = args.criterionId as string;
+    const optionId = args.optionId as string;
+    const criterion = (args.criterion as Record<string, unknown>) || {};
+    const option = (args.option as Record<string, unknown>) || {};
+    const constraint = (args.constraint as Record<string, unknown>) || {};
+
+    let result: any;
+
+    switch (action) {
+      case 'add_criterion':
+        result = await this.decisionMaker.addCriteria({ sessionId, ...criterion });
+        break;
+      case 'update_criterion':
+        if (!criterionId) {
+          throw new Error('criterionId is required for update_criterion action');
+        }
+        result = await this.decisionMaker.updateCriteria({ sessionId, criterionId, updates: criterion });
+        break;
+      case 'remove_criterion':
+        if (!criterionId) {
+          throw new Error('criterionId is required for remove_criterion action');
+        }
+        result = await this.decisionMaker.removeCriteria({ sessionId, criterionId });
+        break;
+      case 'add_option':
+        result = await this.decisionMaker.addOption({ sessionId, ...option });
+        break;
+      case 'update_option':
+        if (!optionId) {
+          throw new Error('optionId is required for update_option action');
+        }
+        result = await this.decisionMaker.updateOption({ sessionId, optionId, updates: option });
+        break;
+      case 'remove_option':
+        if (!optionId) {
+          throw new Error('optionId is required for remove_option action');
+        }
+        result = await this.decisionMaker.removeOption({ sessionId, optionId });
+        break;
+      case 'add_constraint':
+        result = await this.decisionMaker.addConstraint({ sessionId, ...constraint });
+        break;
+      case 'remove_constraint':
+        if (!args.constraintId) {
+          throw new Error('constraintId is required for remove_constraint action');
+        }
+        result = await this.decisionMaker.removeConstraint({ sessionId, constraintId: args.constraintId });
+        break;
+      case 'add_collaborator':
+        result = await this.decisionMaker.addCollaborator({ sessionId, ...((args.collaborator as Record<string, unknown>) || {}) });
+        break;
+      case 'add_scenario':
+        result = await this.decisionMaker.addScenario({ sessionId, ...((args.scenario as Record<string, unknown>) || {}) });
+        break;
+      case 'remove_scenario':
+        if (!args.scenarioId) {
+          throw new Error('scenarioId is required for remove_scenario action');
+        }
+        result = await this.decisionMaker.removeScenario({ sessionId, scenarioId: args.scenarioId });
+        break;
+      case 'set_payoffs':
+        if (!optionId || !args.payoffs) {
+          throw new Error('optionId and payoffs are required for set_payoffs action');
+        }
+        result = await this.decisionMaker.setPayoffs({ sessionId, optionId, payoffs: args.payoffs });
+        break;
+      case 'evaluate':
+        if (!optionId || !args.scores) {
+          throw new Error('optionId and scores are required for evaluate action');
+        }
+        result = await this.decisionMaker.evaluateOption({ sessionId, optionId, evaluatorId: args.evaluatorId, scores: args.scores });
+        break;
+      case 'remove_evaluation':
+        if (!optionId) {
+          throw new Error('optionId is required for remove_evaluation action');
+        }
+        result = await this.decisionMaker.removeEvaluation({ sessionId, optionId, criterionId, evaluatorId: args.evaluatorId });
+        break;
+      case 'start_delphi':
+        result = await this.decisionMaker.startDelphi({
+          sessionId,
+          maxRounds: args.maxRounds as number | undefined,
+          convergenceThreshold: args.convergenceThreshold as number | undefined
+        });
+        break;
+      case 'submit_delphi':
+        if (!optionId || !args.scores) {
+          throw new Error('optionId and scores are required for submit_delphi action');
+        }
+        result = await this.decisionMaker.submitDelphiScores({ sessionId, optionId, evaluatorId: args.evaluatorId, scores: args.scores });
+        break;
+      case 'close_delphi_round': {
+        result = await this.decisionMaker.closeDelphiRound({ sessionId });
+        if (!result.success || result.data.status === 'collecting') {
+          break;
+        }
+        // The consensus is final, so score it straight away
+        const analysisResult = await this.decisionMaker.analyzeDecision({
+          sessionId,
+          includeAlternatives: true,
+          method: (args.method as string) || 'weighted_sum',
+          aggregation: (args.aggregation as string) || 'mean'
+        });
+        if (analysisResult.success) {
+          const recommendationResult = await this.decisionMaker.makeRecommendation({
+            sessionId,
+            minConfidence: (args.minConfidence as number) || 0.3,
+            optimism: args.optimism as number | undefined
+          });
+          result.data = { ...result.data, analysis: analysisResult.data, recommendation: recommendationResult.data };
+        }
+        break;
+      }
+      case 'elicit_weights':
+        if (!args.weighting) {
+          throw new Error('weighting is required for elicit_weights action');
+        }
+        result = await this.decisionMaker.elicitWeights({ sessionId, ...(args.weighting as Record<string, unknown>) });
+        break;
+      case 'record_outcome':
+        if (!args.outcome) {
+          throw new Error('outcome is required for record_outcome action');
+        }
+        result = await this.decisionMaker.recordOutcome({ sessionId, optionId, outcome: args.outcome });
+        break;
+      case 'retrospective':
+        result = await this.decisionMaker.generateRetrospective({ sessionId });
+        break;
+      case 'analyze': {
+        const analysisResult = await this.decisionMaker.analyzeDecision({
+          sessionId,
+          includeAlternatives: true,
+          method: (args.method as string) || 'weighted_sum',
+          pairwiseComparisons: args.pairwiseComparisons,
+          aggregation: (args.aggregation as string) || 'mean'
+        });
+        if (!analysisResult.success) {
+          result = analysisResult;
+          break;
+        }
+        const recommendationResult = await this.decisionMaker.makeRecommendation({
+          sessionId,
+          minConfidence: (args.minConfidence as number) || 0.3,
+          optimism: args.optimism as number | undefined
+        });
+        result = {
+          success: true,
+          data: { analysis: analysisResult.data, recommendation: recommendationResult.data }
+        };
+        break;
+      }
+      default:
+        throw new Error(`Unknown action: ${action}`);
+    }
+
+    if (result.success) {
+      const session = await this.decisionMaker.getSession(sessionId);
+      result = { ...result, metadata: { sessionId, action, status: session.data?.status } };
+    }
+
+    this.security.auditAction('make_decision', sessionId, { action });
+
+    return this.formatResponse(result);
+  }
+
   private async handleAnalyzeDecision(args: Record<string, unknown>) {
     return performanceMonitor.measureAsync('handleAnalyzeDecision', async () => {
       globalRateLimiter.isAllowed('global');
@@ -425,6 +1044,9 @@ class DecisionMCPServer {
       const includeRisks = (args.includeRisks as boolean) ?? true;
       const includeAlternatives = (args.includeAlternatives as boolean) ?? true;
       const maxAlternatives = (args.maxAlternatives as number) || 3;
+      const includeSensitivity = (args.includeSensitivity as boolean) ?? true;
+      const sensitivityRange = (args.sensitivityRange as number) || 0.5;
+      const includeGroup = (args.includeGroup as boolean) ?? true;
 
       const results: any = { sessionId };
 
@@ -452,6 +1074,23 @@ class DecisionMCPServer {
         results.alternatives = altResult.data;
       }
 
+      // Weight sensitivity
+      if (includeSensitivity) {
+        const sensitivityResult = await this.decisionMaker.analyzeSensitivity({ sessionId, range: sensitivityRange });
+        results.sensitivityAnalysis = sensitivityResult.success
+          ? {
+              ...sensitivityResult.data,
+              chart: visualizationService.generateSensitivityChart(sessionId, sensitivityResult.data).content
+            }
+          : { error: sensitivityResult.error };
+      }
+
+      // Multi-evaluator aggregation and disagreement
+      if (includeGroup) {
+        const groupResult = await this.decisionMaker.analyzeGroup({ sessionId });
+        results.groupAnalysis = groupResult.success ? groupResult.data : { error: groupResult.error };
+      }
+
       // Comprehensive analysis
       const compResult = await this.decisionAnalyzer.comprehensiveAnalysis({ sessionId, includeAll: true });
       results.comprehensiveAnalysis = compResult.data;
@@ -460,7 +1099,9 @@ class DecisionMCPServer {
         includeBias,
         includeLogic,
         includeRisks,
-        includeAlternatives
+        includeAlternatives,
+        includeSensitivity,
+        includeGroup
       });
 
       return this.formatResponse({
@@ -487,6 +1128,8 @@ class DecisionMCPServer {
       const thoughtId = args.thoughtId as string;
       const newThought = args.newThought as string;
       const newDirection = args.newDirection as string;
+      const branchId = args.branchId as string | undefined;
+      const author = args.author as string | undefined;
       const conclusion = args.conclusion as string;
       const maxThoughts = (args.maxThoughts as number) || 50;
 
@@ -500,19 +1143,74 @@ class DecisionMCPServer {
           if (!sessionId || !thought) {
             throw new Error('sessionId and thought are required for add_thought action');
           }
-          result = await this.sequentialThinking.addThought({ sessionId, thought });
+          result = await this.sequentialThinking.addThought({
+            sessionId,
+            thought,
+            branchId,
+            parentId: args.parentId as string | undefined,
+            author,
+            thoughtType: args.thoughtType,
+            relations: args.relations
+          });
+          break;
+        case 'relate_thoughts':
+          if (!sessionId || !thoughtId || !args.relations) {
+            throw new Error('sessionId, thoughtId and relations are required for relate_thoughts action');
+          }
+          result = await this.sequentialThinking.relateThoughts({ sessionId, thoughtId, relations: args.relations });
           break;
         case 'revise_thought':
-          if (!thoughtId || !newThought) {
-            throw new Error('thoughtId and newThought are required for revise_thought action');
+          if (!sessionId || !thoughtId || !newThought) {
+            throw new Error('sessionId, thoughtId and newThought are required for revise_thought action');
+          }
+          result = await this.sequentialThinking.reviseThought({ sessionId, thoughtId, newThought, reason: args.reason || 'User revision', author });
+          break;
+        case 'thought_history':
+          if (!sessionId || !thoughtId) {
+            throw new Error('sessionId and thoughtId are required for thought_history action');
           }
-          result = await this.sequentialThinking.reviseThought({ thoughtId, newThought, reason: 'User revision' });
+          result = await this.sequentialThinking.getThoughtHistory({
+            sessionId,
+            thoughtId,
+            fromRevision: args.fromRevision as number | undefined,
+            toRevision: args.toRevision as number | undefined
+          });
           break;
         case 'branch':
-          if (!thoughtId || !newDirection) {
-            throw new Error('thoughtId and newDirection are required for branch action');
+          if (!sessionId || !thoughtId || !newDirection) {
+            throw new Error('sessionId, thoughtId and newDirection are required for branch action');
+          }
+          result = await this.sequentialThinking.branchFromThought({ sessionId, thoughtId, newDirection });
+          break;
+        case 'list_branches':
+          if (!sessionId) {
+            throw new Error('sessionId is required for list_branches action');
+          }
+          result = await this.sequentialThinking.listBranches({ sessionId });
+          break;
+        case 'get_branch':
+          if (!sessionId) {
+            throw new Error('sessionId is required for get_branch action');
+          }
+          result = await this.sequentialThinking.getBranch({ sessionId, branchId });
+          break;
+        case 'set_branch_status':
+          if (!sessionId || !branchId || !args.branchStatus) {
+            throw new Error('sessionId, branchId and branchStatus are required for set_branch_status action');
+          }
+          result = await this.sequentialThinking.setBranchStatus({ sessionId, branchId, status: args.branchStatus, reason: args.reason });
+          break;
+        case 'compare_branches':
+          if (!sessionId || !args.branchIds) {
+            throw new Error('sessionId and branchIds are required for compare_branches action');
           }
-          result = await this.sequentialThinking.branchFromThought({ thoughtId, newDirection, description: 'User-created branch' });
+          result = await this.sequentialThinking.compareBranches({ sessionId, branchIds: args.branchIds });
+          break;
+        case 'merge_branches':
+          if (!sessionId || !args.branchIds) {
+            throw new Error('sessionId and branchIds are required for merge_branches action');
+          }
+          result = await this.sequentialThinking.mergeBranches({ sessionId, branchIds: args.branchIds, thought, branchId, author });
           break;
         case 'analyze':
           if (!sessionId) {
@@ -524,7 +1222,13 @@ class DecisionMCPServer {
           if (!sessionId || !conclusion) {
             throw new Error('sessionId and conclusion are required for conclude action');
           }
-          result = await this.sequentialThinking.concludeThinking({ sessionId, conclusion, confidence: 0.8 });
+          result = await this.sequentialThinking.concludeThinking({ sessionId, conclusion, confidence: (args.confidence as number) ?? 0.8 });
+          break;
+        case 'record_outcome':
+          if (!sessionId || typeof args.correct !== 'boolean') {
+            throw new Error('sessionId and correct are required for record_outcome action');
+          }
+          result = await this.sequentialThinking.recordOutcome({ sessionId, correct: args.correct, notes: args.notes });
           break;
         default:
           throw new Error(`Unknown action: ${action}`);
@@ -551,27 +1255,39 @@ class DecisionMCPServer {
       let result: any;
 
       switch (action) {
-        case 'get':
+        case 'get': {
           if (!sessionId) {
             throw new Error('sessionId is required for get action');
           }
-          // Try decision session first, then thinking session
+          // Try decision session first, then decision tree, then thinking session
           const decisionResult = await this.decisionMaker.getSession(sessionId);
+          const treeResult = decisionResult.success ? null : await this.decisionTree.getSession(sessionId);
           if (decisionResult.success) {
             result = { ...decisionResult, sessionType: 'decision' };
+          } else if (treeResult?.success) {
+            result = {
+              ...treeResult,
+              sessionType: 'decision_tree',
+              diagram: visualizationService.generateDecisionTreeDiagram(treeResult.data, treeResult.data.analysis).content
+            };
           } else {
             const thinkingResult = await this.sequentialThinking.getSession(sessionId);
             result = { ...thinkingResult, sessionType: 'thinking' };
           }
           break;
-        case 'list':
+        }
+        case 'list': {
           const decisionSessions = await this.decisionMaker.listSessions();
           const thinkingSessions = await this.sequentialThinking.listSessions();
+          const treeSessions = await this.decisionTree.listSessions();
           
           let allSessions: any[] = [];
           if (type === 'decision' || type === 'all') {
             allSessions = allSessions.concat(decisionSessions.data?.map((s: any) => ({ ...s, type: 'decision' })) || []);
           }
+          if (type === 'decision_tree' || type === 'all') {
+            allSessions = allSessions.concat(treeSessions.data || []);
+          }
           if (type === 'thinking' || type === 'all') {
             allSessions = allSessions.concat(thinkingSessions.data?.map((s: any) => ({ ...s, type: 'thinking' })) || []);
           }
@@ -582,10 +1298,29 @@ class DecisionMCPServer {
             metadata: {
               totalSessions: allSessions.length,
               decisionSessions: decisionSessions.data?.length || 0,
-              thinkingSessions: thinkingSessions.data?.length || 0
+              decisionTreeSessions: treeSessions.data?.length || 0,
+              thinkingSessions: thinkingSessions.data?.length || 0,
+              overdueSessions: allSessions.filter(s => s.deadlineStatus?.overdue).length
             }
           };
           break;
+        }
+        case 'calibration': {
+          const decisionPoints = await this.decisionMaker.getCalibrationPoints();
+          const thinkingPoints = await this.sequentialThinking.getCalibrationPoints();
+          const points = [
+            ...(type === 'decision' || type === 'all' ? decisionPoints.data || [] : []),
+            ...(type === 'thinking' || type === 'all' ? thinkingPoints.data || [] : [])
+          ];
+          result = {
+            success: true,
+            data: { ...calibrationService.buildReport(points), sessions: points },
+            metadata: {
+              successRatingThreshold: SUCCESS_RATING_THRESHOLD
+            }
+          };
+          break;
+        }
         case 'delete':
           if (!sessionId) {
             throw new Error('sessionId is required for delete action');
@@ -0,0 +1,75 @@
+import { describe, expect, it } from '@jest/globals';
+import { argumentGraphService } from './argument-graph.js';
+import type { Thought, ThoughtRelation } from '../types/thinking-types.js';
+
+const thought = (id: string, type: Thought['type'], relations: ThoughtRelation[] = []): Thought => ({
+  id,
+  content: id,
+  type,
+  relations,
+  timestamp: new Date()
+});
+
+describe('ArgumentGraphService', () => {
+  describe('analyze', () => {
+    it('reports unanswered questions, untested hypotheses and unsupported assumptions', () => {
+      const report = argumentGraphService.analyze([
+        thought('Is the index missing?', 'question'),
+        thought('Why now?', 'question'),
+        thought('Yes, it was dropped', undefined, [{ type: 'answers', targetId: 'Is the index missing?' }]),
+        thought('The deploy caused it', 'hypothesis'),
+        thought('Traffic is stable', 'assumption')
+      ]);
+
+      expect(report.counts).toEqual({ hypothesis: 1, evidence: 0, assumption: 1, question: 2, counterargument: 0, untyped: 1 });
+      expect(report.unresolvedQuestions).toEqual([{ id: 'Why now?', content: 'Why now?' }]);
+      expect(report.nextSteps).toEqual([
+        'Answer: Why now?',
+        'Find evidence for or against: The deploy caused it',
+        'Check the assumption: Traffic is stable'
+      ]);
+    });
+
+    it('counts only evidence as testing a hypothesis or supporting an assumption', () => {
+      const report = argumentGraphService.analyze([
+        thought('The deploy caused it', 'hypothesis'),
+        thought('Traffic is stable', 'assumption'),
+        thought('I think so too', undefined, [{ type: 'supports', targetId: 'The deploy caused it' }]),
+        thought('Latency rose at deploy time', 'evidence', [{ type: 'refutes', targetId: 'The deploy caused it' }]),
+        thought('Request rate is flat', 'evidence', [{ type: 'supports', targetId: 'Traffic is stable' }])
+      ]);
+
+      expect(report.untestedHypotheses).toEqual([]);
+      expect(report.unsupportedAssumptions).toEqual([]);
+      expect(report.insights).toEqual(['Every question is answered, every hypothesis tested and every counterargument addressed']);
+    });
+
+    it('keeps a counterargument open until something refutes it', () => {
+      const thoughts = [
+        thought('Roll back the deploy', undefined),
+        thought('The rollback loses the fix for billing', 'counterargument', [{ type: 'refutes', targetId: 'Roll back the deploy' }])
+      ];
+      const open = argumentGraphService.analyze(thoughts);
+      const rebutted = argumentGraphService.analyze([
+        ...thoughts,
+        thought('Billing can be hotfixed separately', 'evidence', [{ type: 'refutes', targetId: 'The rollback loses the fix for billing' }])
+      ]);
+
+      expect(open.unaddressedCounterarguments).toEqual([{
+        claim: { id: 'Roll back the deploy', content: 'Roll back the deploy' },
+        counterarguments: [{ id: 'The rollback loses the fix for billing', content: 'The rollback loses the fix for billing' }]
+      }]);
+      expect(open.insights).toEqual(['1 claim(s) face 1 counterargument(s) that have not been rebutted']);
+      expect(rebutted.unaddressedCounterarguments).toEqual([]);
+    });
+
+    it('asks for types when no thought has one', () => {
+      const report = argumentGraphService.analyze([thought('Checkout is slow', undefined)]);
+
+      expect(report.insights).toEqual([
+        'No thoughts are typed yet - mark hypotheses, evidence, assumptions, questions and counterarguments to track open ends'
+      ]);
+      expect(report.nextSteps).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import type { Thought, ThoughtRelation } from '../types/thinking-types.js';
+
+export interface ThoughtRef {
+  id: string;
+  content: string;
+}
+
+export interface ArgumentReport {
+  counts: Record<NonNullable<Thought['type']> | 'untyped', number>;
+  // Questions nothing answers
+  unresolvedQuestions: ThoughtRef[];
+  // Hypotheses no evidence supports or refutes
+  untestedHypotheses: ThoughtRef[];
+  // Assumptions no evidence supports
+  unsupportedAssumptions: ThoughtRef[];
+  // Claims refuted by a counterargument that nothing has rebutted
+  unaddressedCounterarguments: { claim: ThoughtRef; counterarguments: ThoughtRef[] }[];
+  insights: string[];
+  nextSteps: string[];
+}
+
+export class ArgumentGraphService {
+  /**
+   * Find the open ends of a session's argument graph
+   */
+  analyze(thoughts: Thought[]): ArgumentReport {
+    const incoming = (thought: Thought, type: ThoughtRelation['type'], fromType?: Thought['type']): Thought[] =>
+      thoughts.filter(source => (!fromType || source.type === fromType)
+        && source.relations?.some(relation => relation.type === type && relation.targetId === thought.id));
+    const ofType = (type: Thought['type']): Thought[] => thoughts.filter(t => t.type === type);
+
+    const unresolvedQuestions = ofType('question').filter(q => incoming(q, 'answers').length === 0);
+    const untestedHypotheses = ofType('hypothesis')
+      .filter(h => incoming(h, 'supports', 'evidence').length === 0 && incoming(h, 'refutes', 'evidence').length === 0);
+    const unsupportedAssumptions = ofType('assumption').filter(a => incoming(a, 'supports', 'evidence').length === 0);
+
+    // A counterargument is addressed once something refutes it in turn
+    const unaddressedCounterarguments = thoughts
+      .map(claim => ({
+        claim,
+        counterarguments: incoming(claim, 'refutes', 'counterargument').filter(c => incoming(c, 'refutes').length === 0)
+      }))
+      .filter(entry => entry.counterarguments.length > 0)
+      .map(entry => ({ claim: this.ref(entry.claim), counterarguments: entry.counterarguments.map(c => this.ref(c)) }));
+
+    const counts = { hypothesis: 0, evidence: 0, assumption: 0, question: 0, counterargument: 0, untyped: 0 };
+    thoughts.forEach(t => counts[t.type ?? 'untyped']++);
+
+    const report = {
+      counts,
+      unresolvedQuestions: unresolvedQuestions.map(t => this.ref(t)),
+      untestedHypotheses: untestedHypotheses.map(t => this.ref(t)),
+      unsupportedAssumptions: unsupportedAssumptions.map(t => this.ref(t)),
+      unaddressedCounterarguments
+    };
+
+    return { ...report, ...this.generateInsights(report, thoughts.length) };
+  }
+
+  private generateInsights(
+    report: Omit<ArgumentReport, 'insights' | 'nextSteps'>,
+    total: number
+  ): { insights: string[]; nextSteps: string[] } {
+    const insights: string[] = [];
+    const nextSteps: string[] = [];
+
+    if (total > 0 && report.counts.untyped === total) {
+      insights.push('No thoughts are typed yet - mark hypotheses, evidence, assumptions, questions and counterarguments to track open ends');
+      return { insights, nextSteps };
+    }
+
+    if (report.unresolvedQuestions.length > 0) {
+      insights.push(`${report.unresolvedQuestions.length} question(s) have no answer`);
+      report.unresolvedQuestions.forEach(q => nextSteps.push(`Answer: ${q.content}`));
+    }
+    if (report.untestedHypotheses.length > 0) {
+      insights.push(`${report.untestedHypotheses.length} hypothesis(es) have no evidence for or against them`);
+      report.untestedHypotheses.forEach(h => nextSteps.push(`Find evidence for or against: ${h.content}`));
+    }
+    if (report.unsupportedAssumptions.length > 0) {
+      insights.push(`${report.unsupportedAssumptions.length} assumption(s) rest on no evidence`);
+      report.unsupportedAssumptions.forEach(a => nextSteps.push(`Check the assumption: ${a.content}`));
+    }
+    if (report.unaddressedCounterarguments.length > 0) {
+      const count = report.unaddressedCounterarguments.reduce((sum, entry) => sum + entry.counterarguments.length, 0);
+      insights.push(`${report.unaddressedCounterarguments.length} claim(s) face ${count} counterargument(s) that have not been rebutted`);
+      report.unaddressedCounterarguments.forEach(entry => entry.counterarguments
+        .forEach(c => nextSteps.push(`Respond to the counterargument "${c.content}" against: ${entry.claim.content}`)));
+    }
+    if (insights.length === 0 && total > 0) {
+      insights.push('Every question is answered, every hypothesis tested and every counterargument addressed');
+    }
+
+    return { insights, nextSteps };
+  }
+
+  private ref(thought: Thought): ThoughtRef {
+    return { id: thought.id, content: thought.content };
+  }
+}
+
+// Singleton instance
+export const argumentGraphService = new ArgumentGraphService();
@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals';
+import { branchComparisonService, type BranchLine } from './branch-comparison.js';
+
+const root = { id: 'root', content: 'Checkout p95 doubled last week' };
+
+const branch = (id: string, description: string, thoughts: string[], base = [root]): BranchLine => ({
+  id,
+  description,
+  status: 'exploring',
+  line: [...base, ...thoughts.map((content, i) => ({ id: `${id}-${i}`, content }))]
+});
+
+describe('BranchComparisonService', () => {
+  describe('compare', () => {
+    it('finds where the branches split and which thoughts contradict', () => {
+      const comparison = branchComparisonService.compare(
+        branch('db', 'Database', ['The orders table index was dropped', "Restore it from last night's migration"]),
+        branch('app', 'Application', ['The orders table index was not dropped', 'Scale the payment workers'])
+      );
+
+      expect(comparison.divergedAt).toEqual({ thoughtId: 'root', content: 'Checkout p95 doubled last week' });
+      expect(comparison.branches.map(b => [b.thoughtCount, b.conclusion])).toEqual([
+        [2, "Restore it from last night's migration"],
+        [2, 'Scale the payment workers']
+      ]);
+      expect(comparison.contradicting).toEqual([expect.objectContaining({
+        thoughtIds: ['db-0', 'app-0'],
+        similarity: 0.86,
+        reason: 'One thought negates a point the other makes'
+      })]);
+      expect(comparison.insights).toEqual([
+        'The branches split after "Checkout p95 doubled last week"',
+        '1 pair(s) of thoughts contradict each other - resolve them before merging'
+      ]);
+    });
+
+    it('reports thoughts that make the same point', () => {
+      const comparison = branchComparisonService.compare(
+        branch('a', 'Caching', ['Cache the session lookups']),
+        branch('b', 'Redis', ['Cache the session lookups in Redis'])
+      );
+
+      expect(comparison.overlapping).toEqual([expect.objectContaining({ similarity: 0.67, commonWords: ['cache', 'the', 'session', 'lookups'] })]);
+      expect(comparison.contradicting).toEqual([]);
+      expect(comparison.insights[1]).toBe('1 pair(s) of thoughts make the same point; a merge can state them once');
+    });
+
+    it('handles branches with unrelated roots or no thoughts of their own', () => {
+      const separate = branchComparisonService.compare(
+        branch('a', 'Caching', ['Cache the session lookups']),
+        branch('b', 'Hiring', ['Hire a second SRE'], [{ id: 'other', content: 'On-call is overloaded' }])
+      );
+      const empty = branchComparisonService.compare(branch('a', 'Caching', ['Cache the session lookups']), branch('b', 'Hiring', []));
+
+      expect(separate.divergedAt).toBeNull();
+      expect(separate.insights).toEqual([
+        'The branches share no thoughts',
+        'The branches explore largely separate ideas, so a merge can combine them without conflict'
+      ]);
+      expect(empty.similarity).toBe(0);
+      expect(empty.insights[1]).toBe('Hiring has no thoughts of its own yet');
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { nlpService } from './nlp.js';
+
+export interface BranchLine {
+  id: string;
+  description: string;
+  status: string;
+  // Thoughts that led to the branch point followed by the branch's own thoughts
+  line: { id: string; content: string }[];
+}
+
+export interface ThoughtPair {
+  thoughtIds: [string, string];
+  contents: [string, string];
+  similarity: number;
+  commonWords: string[];
+}
+
+export interface BranchComparison {
+  branches: { id: string; description: string; status: string; thoughtCount: number; conclusion: string | null }[];
+  // Last thought both lines share; null when they start from unrelated roots
+  divergedAt: { thoughtId: string; content: string } | null;
+  // Word overlap between everything each branch added after diverging
+  similarity: number;
+  overlapping: ThoughtPair[];
+  contradicting: (ThoughtPair & { reason: string })[];
+  insights: string[];
+}
+
+// Thought pairs at least this similar repeat the same point
+const OVERLAP_THRESHOLD = 0.5;
+
+// Pairs must share this much to be about the same thing before they can contradict
+const TOPIC_THRESHOLD = 0.2;
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'cannot', 'without', 'none', 'neither', 'nor']);
+
+export class BranchComparisonService {
+  /**
+   * Show where two lines of reasoning split, what each concluded, and where they agree or clash
+   */
+  compare(a: BranchLine, b: BranchLine): BranchComparison {
+    let shared = 0;
+    while (shared < a.line.length && shared < b.line.length && a.line[shared].id === b.line[shared].id) {
+      shared++;
+    }
+    const divergedAt = shared > 0 ? { thoughtId: a.line[shared - 1].id, content: a.line[shared - 1].content } : null;
+    const ownA = a.line.slice(shared);
+    const ownB = b.line.slice(shared);
+
+    const overlapping: ThoughtPair[] = [];
+    const contradicting: (ThoughtPair & { reason: string })[] = [];
+    ownA.forEach(thoughtA => ownB.forEach(thoughtB => {
+      const { similarity, commonWords } = nlpService.analyzeSimilarity(thoughtA.content, thoughtB.content);
+      const pair: ThoughtPair = {
+        thoughtIds: [thoughtA.id, thoughtB.id],
+        contents: [thoughtA.content, thoughtB.content],
+        similarity: this.round(similarity),
+        commonWords
+      };
+      const reason = similarity >= TOPIC_THRESHOLD ? this.contradiction(thoughtA.content, thoughtB.content) : null;
+      if (reason) {
+        contradicting.push({ ...pair, reason });
+      } else if (similarity >= OVERLAP_THRESHOLD) {
+        overlapping.push(pair);
+      }
+    }));
+
+    const similarity = ownA.length > 0 && ownB.length > 0
+      ? this.round(nlpService.analyzeSimilarity(ownA.map(t => t.content).join(' '), ownB.map(t => t.content).join(' ')).similarity)
+      : 0;
+
+    const branches = [a, b].map((branch, i) => {
+      const own = i === 0 ? ownA : ownB;
+      return {
+        id: branch.id,
+        description: branch.description,
+        status: branch.status,
+        thoughtCount: own.length,
+        conclusion: own[own.length - 1]?.content ?? null
+      };
+    });
+
+    return {
+      branches,
+      divergedAt,
+      similarity,
+      overlapping: overlapping.sort((x, y) => y.similarity - x.similarity),
+      contradicting: contradicting.sort((x, y) => y.similarity - x.similarity),
+      insights: this.generateInsights(branches, divergedAt, similarity, overlapping, contradicting)
+    };
+  }
+
+  private contradiction(first: string, second: string): string | null {
+    // One side negating a claim the other makes is the clearest clash
+    if (this.negated(first) !== this.negated(second)) {
+      return 'One thought negates a point the other makes';
+    }
+    const sentimentA = nlpService.analyzeKeywords(first).sentiment;
+    const sentimentB = nlpService.analyzeKeywords(second).sentiment;
+    if (sentimentA !== 'neutral' && sentimentB !== 'neutral' && sentimentA !== sentimentB) {
+      return `Opposite judgements of the same topic (${sentimentA} vs ${sentimentB})`;
+    }
+    return null;
+  }
+
+  private negated(text: string): boolean {
+    return /n't\b/i.test(text) || text.toLowerCase().split(/[^a-z]+/).some(word => NEGATIONS.has(word));
+  }
+
+  private generateInsights(
+    branches: BranchComparison['branches'],
+    divergedAt: BranchComparison['divergedAt'],
+    similarity: number,
+    overlapping: ThoughtPair[],
+    contradicting: ThoughtPair[]
+  ): string[] {
+    const insights: string[] = [];
+    const [a, b] = branches;
+
+    insights.push(divergedAt
+      ? `The branches split after "${this.truncate(divergedAt.content)}"`
+      : 'The branches share no thoughts');
+
+    if (a.thoughtCount === 0 || b.thoughtCount === 0) {
+      insights.push(`${a.thoughtCount === 0 ? a.description : b.description} has no thoughts of its own yet`);
+      return insights;
+    }
+
+    if (contradicting.length > 0) {
+      insights.push(`${contradicting.length} pair(s) of thoughts contradict each other - resolve them before merging`);
+    }
+    if (overlapping.length > 0) {
+      insights.push(`${overlapping.length} pair(s) of thoughts make the same point; a merge can state them once`);
+    }
+    if (contradicting.length === 0 && similarity < TOPIC_THRESHOLD) {
+      insights.push('The branches explore largely separate ideas, so a merge can combine them without conflict');
+    }
+    return insights;
+  }
+
+  private truncate(text: string): string {
+    return text.length > 60 ? `${text.substring(0, 57)}...` : text;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// Singleton instance
+export const branchComparisonService = new BranchComparisonService();
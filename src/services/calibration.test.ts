@@ -0,0 +1,65 @@
+import { describe, expect, it } from '@jest/globals';
+import { calibrationService, type CalibrationPoint } from './calibration.js';
+
+const point = (confidence: number, outcome: 0 | 1, day: number, source: CalibrationPoint['source'] = 'decision'): CalibrationPoint => ({
+  sessionId: `s${day}`,
+  source,
+  confidence,
+  outcome,
+  statedAt: new Date(2026, 0, day)
+});
+
+describe('CalibrationService', () => {
+  describe('buildReport', () => {
+    it('scores stated confidence against outcomes with a Brier score', () => {
+      const report = calibrationService.buildReport([point(0.9, 0, 1), point(0.9, 1, 2), point(0.3, 0, 3), point(0.1, 0, 4, 'thinking')]);
+
+      expect(report).toMatchObject({ resolved: 4, brierScore: 0.23, overconfidence: 0.3 });
+      expect(report.bySource).toEqual({
+        decision: { resolved: 3, brierScore: 0.303, overconfidence: 0.367 },
+        thinking: { resolved: 1, brierScore: 0.01, overconfidence: 0.1 }
+      });
+    });
+
+    it('groups sessions into reliability buckets and flags miscalibrated ones', () => {
+      const report = calibrationService.buildReport([point(0.9, 0, 1), point(0.9, 1, 2), point(0.3, 0, 3), point(1, 1, 4)]);
+
+      expect(report.buckets.map(b => [b.range, b.count, b.observedFrequency])).toEqual([
+        [[0, 0.2], 0, null],
+        [[0.2, 0.4], 1, 0],
+        [[0.4, 0.6], 0, null],
+        [[0.6, 0.8], 0, null],
+        [[0.8, 1], 3, 0.667]
+      ]);
+      expect(report.insights).toEqual([
+        'Only 4 resolved session(s) - treat the calibration figures as indicative',
+        'Brier score 0.228 is better than an uninformative 0.5 forecast (0.25)',
+        'Stated 30% confidence worked out 0% of the time (1 session(s)) - overconfident',
+        'Stated 93% confidence worked out 67% of the time (3 session(s)) - overconfident',
+        'Stated confidence is falling relative to actual success rates over time'
+      ]);
+    });
+
+    it('reports drift towards overconfidence in the order confidence was stated', () => {
+      const report = calibrationService.buildReport([point(0.8, 0, 4), point(0.5, 1, 1), point(0.7, 0, 3), point(0.6, 1, 2)]);
+
+      expect(report.trend.direction).toBe('more_overconfident');
+      expect(report.trend.slope).toBeGreaterThan(0);
+      expect(report.insights).toContain('Stated confidence is rising relative to actual success rates over time');
+    });
+
+    it('calls a forecast no better than 0.5 uninformative', () => {
+      const report = calibrationService.buildReport([point(0.9, 0, 1), point(0.2, 1, 2)]);
+
+      expect(report.insights[1]).toBe('Brier score 0.725 is no better than always stating 0.5 confidence');
+    });
+
+    it('needs resolved sessions before reporting', () => {
+      const report = calibrationService.buildReport([]);
+
+      expect(report.brierScore).toBeNull();
+      expect(report.trend.direction).toBe('insufficient_data');
+      expect(report.insights).toEqual(['No resolved sessions yet - record outcomes for completed decisions and thinking conclusions']);
+    });
+  });
+});
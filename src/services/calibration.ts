@@ -0,0 +1,160 @@
+import { calculateTrend } from '../utils/analysis.js';
+
+// Success rating (0-10) at or above which a followed recommendation counts as having worked out
+export const SUCCESS_RATING_THRESHOLD = 6;
+
+export interface CalibrationPoint {
+  sessionId: string;
+  source: 'decision' | 'thinking';
+  // Confidence we stated, 0-1
+  confidence: number;
+  // 1 if the recommendation or conclusion turned out right, otherwise 0
+  outcome: 0 | 1;
+  // When the confidence was stated; orders the trend
+  statedAt: Date;
+}
+
+export interface ReliabilityBucket {
+  range: [number, number];
+  count: number;
+  meanConfidence: number | null;
+  observedFrequency: number | null;
+  // Mean confidence minus observed frequency; positive means overconfident
+  gap: number | null;
+}
+
+export interface CalibrationReport {
+  resolved: number;
+  brierScore: number | null;
+  // Mean confidence minus success rate across every resolved session
+  overconfidence: number | null;
+  buckets: ReliabilityBucket[];
+  bySource: Record<CalibrationPoint['source'], { resolved: number; brierScore: number | null; overconfidence: number | null }>;
+  trend: {
+    // Change in (confidence - outcome) per session, oldest first; positive means drifting towards overconfidence
+    slope: number;
+    rSquared: number;
+    direction: 'more_overconfident' | 'more_underconfident' | 'stable' | 'insufficient_data';
+  };
+  insights: string[];
+}
+
+const BUCKET_COUNT = 5;
+
+// Trend slopes smaller than this are reported as stable
+const TREND_TOLERANCE = 0.01;
+
+// Fewer resolved sessions than this make the report indicative only
+const MIN_RESOLVED = 10;
+
+export class CalibrationService {
+  /**
+   * Measure how well stated confidence matched what actually happened
+   */
+  buildReport(points: CalibrationPoint[]): CalibrationReport {
+    const ordered = [...points].sort((a, b) => new Date(a.statedAt).getTime() - new Date(b.statedAt).getTime());
+
+    const buckets: ReliabilityBucket[] = Array.from({ length: BUCKET_COUNT }, (_, i) => {
+      const low = i / BUCKET_COUNT;
+      const high = (i + 1) / BUCKET_COUNT;
+      // The top bucket includes confidence 1
+      const members = ordered.filter(p => p.confidence >= low && (i === BUCKET_COUNT - 1 ? p.confidence <= high : p.confidence < high));
+      const meanConfidence = this.mean(members.map(p => p.confidence));
+      const observedFrequency = this.mean(members.map(p => p.outcome));
+      return {
+        range: [this.round(low), this.round(high)] as [number, number],
+        count: members.length,
+        meanConfidence,
+        observedFrequency,
+        gap: meanConfidence !== null && observedFrequency !== null ? this.round(meanConfidence - observedFrequency) : null
+      };
+    });
+
+    const bySource = {
+      decision: this.summarize(ordered.filter(p => p.source === 'decision')),
+      thinking: this.summarize(ordered.filter(p => p.source === 'thinking'))
+    };
+
+    const trend = this.trend(ordered);
+    const overall = this.summarize(ordered);
+
+    return {
+      resolved: ordered.length,
+      brierScore: overall.brierScore,
+      overconfidence: overall.overconfidence,
+      buckets,
+      bySource,
+      trend,
+      insights: this.generateInsights(ordered, overall, buckets, trend)
+    };
+  }
+
+  private summarize(points: CalibrationPoint[]): { resolved: number; brierScore: number | null; overconfidence: number | null } {
+    return {
+      resolved: points.length,
+      brierScore: this.mean(points.map(p => Math.pow(p.confidence - p.outcome, 2))),
+      overconfidence: this.mean(points.map(p => p.confidence - p.outcome))
+    };
+  }
+
+  private trend(points: CalibrationPoint[]): CalibrationReport['trend'] {
+    if (points.length < 3) {
+      return { slope: 0, rSquared: 0, direction: 'insufficient_data' };
+    }
+
+    const { slope, rSquared } = calculateTrend(points.map((_, i) => i), points.map(p => p.confidence - p.outcome));
+    const direction = Math.abs(slope) < TREND_TOLERANCE ? 'stable' : slope > 0 ? 'more_overconfident' : 'more_underconfident';
+    return { slope: this.round(slope), rSquared: this.round(rSquared), direction };
+  }
+
+  private generateInsights(
+    points: CalibrationPoint[],
+    overall: { brierScore: number | null; overconfidence: number | null },
+    buckets: ReliabilityBucket[],
+    trend: CalibrationReport['trend']
+  ): string[] {
+    const insights: string[] = [];
+    if (points.length === 0) {
+      insights.push('No resolved sessions yet - record outcomes for completed decisions and thinking conclusions');
+      return insights;
+    }
+
+    if (points.length < MIN_RESOLVED) {
+      insights.push(`Only ${points.length} resolved session(s) - treat the calibration figures as indicative`);
+    }
+
+    // Always predicting 50% scores 0.25, so anything worse adds no information
+    if (overall.brierScore !== null) {
+      insights.push(overall.brierScore < 0.25
+        ? `Brier score ${overall.brierScore} is better than an uninformative 0.5 forecast (0.25)`
+        : `Brier score ${overall.brierScore} is no better than always stating 0.5 confidence`);
+    }
+
+    buckets
+      .filter(b => b.count > 0 && b.gap !== null && Math.abs(b.gap) >= 0.15)
+      .forEach(b => {
+        const percent = Math.round((b.meanConfidence as number) * 100);
+        const observed = Math.round((b.observedFrequency as number) * 100);
+        insights.push(`Stated ${percent}% confidence worked out ${observed}% of the time (${b.count} session(s)) - ${(b.gap as number) > 0 ? 'overconfident' : 'underconfident'}`);
+      });
+
+    if (trend.direction === 'more_overconfident') {
+      insights.push('Stated confidence is rising relative to actual success rates over time');
+    } else if (trend.direction === 'more_underconfident') {
+      insights.push('Stated confidence is falling relative to actual success rates over time');
+    }
+
+    return insights;
+  }
+
+  private mean(values: number[]): number | null {
+    return values.length > 0 ? this.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
+
+// Singleton instance
+export const calibrationService = new CalibrationService();
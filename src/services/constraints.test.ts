@@ -0,0 +1,96 @@
+import { describe, expect, it } from '@jest/globals';
+import { constraintService } from './constraints.js';
+import type { Constraint, Option } from '../types/decision-types.js';
+
+const option = (fields: Partial<Option> & Pick<Option, 'id'>): Option => ({
+  name: fields.id,
+  description: '',
+  pros: [],
+  cons: [],
+  risks: [],
+  ...fields
+});
+
+const constraint = (fields: Omit<Constraint, 'id' | 'description'>): Constraint => ({
+  id: `${fields.type}-${fields.value}`,
+  description: `${fields.type} ${fields.value}`,
+  ...fields
+});
+
+describe('ConstraintService', () => {
+  describe('applyConstraints', () => {
+    it('eliminates options over a cost limit and says why', () => {
+      const result = constraintService.applyConstraints(
+        [constraint({ type: 'max_cost', value: 150 })],
+        [option({ id: 'cheap', estimatedCost: 100 }), option({ id: 'dear', estimatedCost: 200 })]
+      );
+
+      expect(result.eligibleOptions.map(o => o.id)).toEqual(['cheap']);
+      expect(result.eliminated).toEqual([{
+        optionId: 'dear',
+        name: 'dear',
+        failedConstraints: [{ constraintId: 'max_cost-150', description: 'max_cost 150', reason: 'estimated cost 200 is above 150' }]
+      }]);
+    });
+
+    it('compares durations in days', () => {
+      const result = constraintService.applyConstraints(
+        [constraint({ type: 'max_time', value: '1 month' })],
+        [option({ id: 'quick', estimatedTime: '2-3 weeks' }), option({ id: 'slow', estimatedTime: '1 quarter' })]
+      );
+
+      expect(result.eligibleOptions.map(o => o.id)).toEqual(['quick']);
+    });
+
+    it('keeps options missing the estimate a constraint needs and reports them as unverified', () => {
+      const result = constraintService.applyConstraints([constraint({ type: 'max_cost', value: 150 })], [option({ id: 'unknown' })]);
+
+      expect(result.eligibleOptions.map(o => o.id)).toEqual(['unknown']);
+      expect(result.unverified[0].constraints[0].reason).toBe('no estimated cost');
+      expect(result.warnings).toEqual(['unknown could not be checked against: max_cost 150']);
+    });
+
+    it('matches required and excluded phrases as whole words', () => {
+      const result = constraintService.applyConstraints(
+        [constraint({ type: 'requires', value: 'SSO' }), constraint({ type: 'excludes', value: 'lock-in' })],
+        [
+          option({ id: 'match', pros: ['Supports SSO'] }),
+          option({ id: 'substring', pros: ['Comes with a lasso'] }),
+          option({ id: 'locked', pros: ['SSO built in'], cons: ['Vendor lock-in'] })
+        ]
+      );
+
+      expect(result.eligibleOptions.map(o => o.id)).toEqual(['match']);
+    });
+
+    it('searches every option field for target any, even when an option has no pros', () => {
+      const result = constraintService.applyConstraints(
+        [constraint({ type: 'requires', value: 'open source', target: 'any' })],
+        [option({ id: 'described', description: 'An open source database' }), option({ id: 'bare' })]
+      );
+
+      expect(result.eligibleOptions.map(o => o.id)).toEqual(['described']);
+    });
+
+    it('warns when every option is eliminated', () => {
+      const result = constraintService.applyConstraints(
+        [constraint({ type: 'min_cost', value: 500 })],
+        [option({ id: 'a', estimatedCost: 100 })]
+      );
+
+      expect(result.allEliminated).toBe(true);
+      expect(result.warnings[0]).toContain('All options were eliminated');
+    });
+  });
+
+  describe('validateConstraint', () => {
+    it('rejects values of the wrong kind', () => {
+      expect(() => constraintService.validateConstraint({ description: '', type: 'max_cost', value: 'cheap' }))
+        .toThrow('max_cost constraint requires a numeric value');
+      expect(() => constraintService.validateConstraint({ description: '', type: 'max_time', value: 'soon' }))
+        .toThrow('requires a duration');
+      expect(() => constraintService.validateConstraint({ description: '', type: 'requires', value: ' ' }))
+        .toThrow('requires a phrase');
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import type { Constraint, Option } from '../types/decision-types.js';
+import { parseDurationToDays } from '../utils/analysis.js';
+
+export interface ConstraintFailure {
+  constraintId: string;
+  description: string;
+  reason: string;
+}
+
+export interface EliminatedOption {
+  optionId: string;
+  name: string;
+  failedConstraints: ConstraintFailure[];
+}
+
+export interface ConstraintResult {
+  eligibleOptions: Option[];
+  eliminated: EliminatedOption[];
+  // Constraints that could not be checked because the option lacks the data; the option is kept
+  unverified: { optionId: string; name: string; constraints: ConstraintFailure[] }[];
+  allEliminated: boolean;
+  warnings: string[];
+}
+
+type CheckOutcome = { status: 'pass' } | { status: 'fail' | 'unknown'; reason: string };
+
+export class ConstraintService {
+  /**
+   * Split options into those meeting every constraint and those eliminated, with the reasons
+   */
+  applyConstraints(constraints: Constraint[], options: Option[]): ConstraintResult {
+    const eligibleOptions: Option[] = [];
+    const eliminated: EliminatedOption[] = [];
+    const unverified: ConstraintResult['unverified'] = [];
+
+    options.forEach(option => {
+      const failed: ConstraintFailure[] = [];
+      const unknown: ConstraintFailure[] = [];
+
+      constraints.forEach(constraint => {
+        const outcome = this.check(constraint, option);
+        if (outcome.status === 'pass') return;
+        const entry = { constraintId: constraint.id, description: constraint.description, reason: outcome.reason };
+        (outcome.status === 'fail' ? failed : unknown).push(entry);
+      });
+
+      if (failed.length > 0) {
+        eliminated.push({ optionId: option.id, name: option.name, failedConstraints: failed });
+      } else {
+        eligibleOptions.push(option);
+      }
+      if (unknown.length > 0) {
+        unverified.push({ optionId: option.id, name: option.name, constraints: unknown });
+      }
+    });
+
+    const warnings: string[] = [];
+    const allEliminated = options.length > 0 && eligibleOptions.length === 0;
+    if (allEliminated) {
+      warnings.push('All options were eliminated by constraints; relax a constraint or add options');
+    }
+    unverified.forEach(entry => {
+      warnings.push(`${entry.name} could not be checked against: ${entry.constraints.map(c => c.description).join(', ')}`);
+    });
+
+    return { eligibleOptions, eliminated, unverified, allEliminated, warnings };
+  }
+
+  /**
+   * Check that a constraint is well-formed before it is stored
+   */
+  validateConstraint(constraint: Omit<Constraint, 'id'>): void {
+    switch (constraint.type) {
+      case 'max_cost':
+      case 'min_cost':
+        if (typeof constraint.value !== 'number') {
+          throw new Error(`${constraint.type} constraint requires a numeric value`);
+        }
+        break;
+      case 'max_time':
+      case 'min_time':
+        if (this.toDays(constraint.value) === null) {
+          throw new Error(`${constraint.type} constraint requires a duration such as "3 months" or a number of days`);
+        }
+        break;
+      case 'requires':
+      case 'excludes':
+        if (typeof constraint.value !== 'string' || constraint.value.trim() === '') {
+          throw new Error(`${constraint.type} constraint requires a phrase to look for`);
+        }
+        break;
+      default:
+        throw new Error(`Unknown constraint type: ${(constraint as Constraint).type}`);
+    }
+  }
+
+  private check(constraint: Constraint, option: Option): CheckOutcome {
+    switch (constraint.type) {
+      case 'max_cost':
+      case 'min_cost': {
+        if (option.estimatedCost === undefined) {
+          return { status: 'unknown', reason: 'no estimated cost' };
+        }
+        const limit = constraint.value as number;
+        const ok = constraint.type === 'max_cost' ? option.estimatedCost <= limit : option.estimatedCost >= limit;
+        return ok
+          ? { status: 'pass' }
+          : { status: 'fail', reason: `estimated cost ${option.estimatedCost} is ${constraint.type === 'max_cost' ? 'above' : 'below'} ${limit}` };
+      }
+      case 'max_time':
+      case 'min_time': {
+        const days = option.estimatedTime ? parseDurationToDays(option.estimatedTime) : null;
+        if (days === null) {
+          return { status: 'unknown', reason: option.estimatedTime ? `estimated time "${option.estimatedTime}" could not be parsed` : 'no estimated time' };
+        }
+        const limit = this.toDays(constraint.value) as number;
+        const ok = constraint.type === 'max_time' ? days <= limit : days >= limit;
+        return ok
+          ? { status: 'pass' }
+          : { status: 'fail', reason: `estimated time "${option.estimatedTime}" is ${constraint.type === 'max_time' ? 'longer' : 'shorter'} than ${constraint.value}${typeof constraint.value === 'number' ? ' days' : ''}` };
+      }
+      case 'requires': {
+        const target = constraint.target || 'pros';
+        return this.mentions(option, target, constraint.value as string)
+          ? { status: 'pass' }
+          : { status: 'fail', reason: `${this.describeTarget(target)} do not mention "${constraint.value}"` };
+      }
+      case 'excludes': {
+        const target = constraint.target || 'cons';
+        return this.mentions(option, target, constraint.value as string)
+          ? { status: 'fail', reason: `${this.describeTarget(target)} mention "${constraint.value}"` }
+          : { status: 'pass' };
+      }
+    }
+  }
+
+  private mentions(option: Option, target: 'pros' | 'cons' | 'any', phrase: string): boolean {
+    const texts = target === 'pros'
+      ? option.pros
+      : target === 'cons'
+        ? option.cons
+        : [option.name, option.description, ...option.pros, ...option.cons, ...option.risks];
+
+    // Whole-word, case-insensitive match so "SSO" does not match "lasso"
+    const escaped = phrase.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`, 'i');
+    return texts.some(text => pattern.test(text));
+  }
+
+  private describeTarget(target: 'pros' | 'cons' | 'any'): string {
+    return target === 'any' ? 'option details' : target;
+  }
+
+  private toDays(value: number | string): number | null {
+    return typeof value === 'number' ? value : parseDurationToDays(value);
+  }
+}
+
+// Singleton instance
+export const constraintService = new ConstraintService();
@@ -0,0 +1,66 @@
+import { describe, expect, it } from '@jest/globals';
+import { decisionTreeService } from './decision-tree.js';
+import type { DecisionTreeNode } from '../types/decision-types.js';
+
+// Launch costs 10 and succeeds with probability 0.6; skipping pays nothing
+const launchTree: DecisionTreeNode[] = [
+  { id: 'root', type: 'decision', label: 'Launch?' },
+  { id: 'launch', type: 'chance', label: 'Launch', parentId: 'root', cost: 10 },
+  { id: 'success', type: 'terminal', label: 'Success', parentId: 'launch', probability: 0.6, payoff: 100 },
+  { id: 'failure', type: 'terminal', label: 'Failure', parentId: 'launch', probability: 0.4, payoff: -50 },
+  { id: 'skip', type: 'terminal', label: 'Skip', parentId: 'root', payoff: 0 }
+];
+
+describe('DecisionTreeService', () => {
+  describe('analyze', () => {
+    it('rolls the tree back to expected values net of branch costs', () => {
+      const result = decisionTreeService.analyze(launchTree);
+
+      expect(result.rootId).toBe('root');
+      expect(result.expectedValue).toBe(30);
+      expect(result.nodeValues).toMatchObject({ launch: 30, skip: 0 });
+      expect(result.policy).toEqual([
+        { nodeId: 'root', label: 'Launch?', choiceId: 'launch', choice: 'Launch', expectedValue: 30, onOptimalPath: true }
+      ]);
+    });
+
+    it('values perfect information by the losses it avoids', () => {
+      // Knowing the outcome: launch on success (90), skip on failure (0) -> 0.6 * 90 = 54
+      const result = decisionTreeService.analyze(launchTree);
+
+      expect(result.evpi).toBe(24);
+      expect(result.informationValues).toEqual([{ nodeId: 'launch', label: 'Launch', valueOfPerfectInformation: 24 }]);
+    });
+
+    it('marks decisions off the optimal path', () => {
+      const result = decisionTreeService.analyze([
+        { id: 'root', type: 'decision', label: 'Build?' },
+        { id: 'buy', type: 'terminal', label: 'Buy', parentId: 'root', payoff: 50 },
+        { id: 'build', type: 'decision', label: 'How to build', parentId: 'root' },
+        { id: 'in-house', type: 'terminal', label: 'In house', parentId: 'build', payoff: 40 },
+        { id: 'agency', type: 'terminal', label: 'Agency', parentId: 'build', payoff: 20 }
+      ]);
+
+      expect(result.policy.map(p => [p.nodeId, p.choiceId, p.onOptimalPath])).toEqual([
+        ['root', 'buy', true],
+        ['build', 'in-house', false]
+      ]);
+      expect(result.evpi).toBe(0);
+    });
+  });
+
+  describe('validateTree', () => {
+    it('rejects chance outcomes whose probabilities do not sum to 1', () => {
+      const nodes = launchTree.map(node => (node.id === 'failure' ? { ...node, probability: 0.3 } : node));
+
+      expect(() => decisionTreeService.validateTree(nodes)).toThrow('sum to 0.9 instead of 1');
+    });
+
+    it('rejects trees without a single root or with childless decisions', () => {
+      expect(() => decisionTreeService.validateTree([
+        { id: 'a', type: 'decision', label: 'A' },
+        { id: 'b', type: 'decision', label: 'B' }
+      ])).toThrow(/exactly one root node, found 2.*Decision node a needs at least one branch/);
+    });
+  });
+});
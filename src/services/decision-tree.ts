@@ -0,0 +1,271 @@
+import type { DecisionTreeNode } from '../types/decision-types.js';
+
+export interface DecisionTreePolicy {
+  nodeId: string;
+  label: string;
+  choiceId: string;
+  choice: string;
+  expectedValue: number;
+  // False for decisions that cannot be reached under the optimal strategy
+  onOptimalPath: boolean;
+}
+
+export interface InformationValue {
+  nodeId: string;
+  label: string;
+  valueOfPerfectInformation: number;
+}
+
+export interface DecisionTreeAnalysis {
+  rootId: string;
+  expectedValue: number;
+  nodeValues: Record<string, number>;
+  policy: DecisionTreePolicy[];
+  // Expected value of perfect information about every chance node at once, null when too many scenarios
+  evpi: number | null;
+  // Value of resolving each chance node on its own before any decision is made
+  informationValues: InformationValue[];
+  insights: string[];
+  warnings: string[];
+}
+
+// Joint outcomes enumerated for EVPI before giving up
+const MAX_SCENARIOS = 4096;
+
+const PROBABILITY_TOLERANCE = 1e-6;
+
+export class DecisionTreeService {
+  /**
+   * Check the tree is well-formed and return the root node ID
+   */
+  validateTree(nodes: DecisionTreeNode[]): string {
+    const errors: string[] = [];
+    const byId = new Map<string, DecisionTreeNode>();
+
+    nodes.forEach(node => {
+      if (byId.has(node.id)) errors.push(`Duplicate node ID: ${node.id}`);
+      byId.set(node.id, node);
+    });
+
+    const roots = nodes.filter(node => !node.parentId);
+    if (roots.length !== 1) {
+      errors.push(`Tree must have exactly one root node, found ${roots.length}`);
+    }
+
+    const children = this.childrenOf(nodes);
+    nodes.forEach(node => {
+      if (node.parentId) {
+        const parent = byId.get(node.parentId);
+        if (!parent) {
+          errors.push(`Node ${node.id} references unknown parent ${node.parentId}`);
+        } else if (parent.type === 'terminal') {
+          errors.push(`Terminal node ${parent.id} cannot have children`);
+        } else if (parent.type === 'chance' && node.probability === undefined) {
+          errors.push(`Node ${node.id} needs a probability as an outcome of chance node ${parent.id}`);
+        }
+      }
+
+      const count = children.get(node.id)?.length || 0;
+      if (node.type === 'terminal' && node.payoff === undefined) {
+        errors.push(`Terminal node ${node.id} needs a payoff`);
+      }
+      if (node.type !== 'terminal' && count === 0) {
+        errors.push(`${node.type === 'decision' ? 'Decision' : 'Chance'} node ${node.id} needs at least one branch`);
+      }
+      if (node.type === 'chance' && count > 0) {
+        const total = (children.get(node.id) || []).reduce((sum, child) => sum + (child.probability ?? 0), 0);
+        if (Math.abs(total - 1) > PROBABILITY_TOLERANCE) {
+          errors.push(`Outcome probabilities of chance node ${node.id} sum to ${this.round(total)} instead of 1`);
+        }
+      }
+    });
+
+    // Every node must hang off the root, which also rules out cycles
+    if (roots.length === 1 && errors.length === 0) {
+      const reached = new Set<string>();
+      const stack = [roots[0].id];
+      while (stack.length > 0) {
+        const id = stack.pop() as string;
+        if (reached.has(id)) continue;
+        reached.add(id);
+        (children.get(id) || []).forEach(child => stack.push(child.id));
+      }
+      const unreachable = nodes.filter(node => !reached.has(node.id)).map(node => node.id);
+      if (unreachable.length > 0) {
+        errors.push(`Nodes not connected to the root: ${unreachable.join(', ')}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid decision tree: ${errors.join('; ')}`);
+    }
+
+    return roots[0].id;
+  }
+
+  /**
+   * Roll back the tree to expected values, the optimal policy and the value of information
+   */
+  analyze(nodes: DecisionTreeNode[]): DecisionTreeAnalysis {
+    const rootId = this.validateTree(nodes);
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    const children = this.childrenOf(nodes);
+
+    const nodeValues: Record<string, number> = {};
+    const expectedValue = this.rollback(rootId, byId, children, new Map(), nodeValues);
+
+    const bestChild = (id: string): DecisionTreeNode =>
+      (children.get(id) as DecisionTreeNode[]).reduce((best, child) => (nodeValues[child.id] > nodeValues[best.id] ? child : best));
+
+    // Decisions reachable when every earlier decision follows the optimal choice
+    const onPath = new Set<string>();
+    const stack = [rootId];
+    while (stack.length > 0) {
+      const id = stack.pop() as string;
+      onPath.add(id);
+      const node = byId.get(id) as DecisionTreeNode;
+      if (node.type === 'decision') stack.push(bestChild(id).id);
+      if (node.type === 'chance') (children.get(id) || []).forEach(child => stack.push(child.id));
+    }
+
+    const policy: DecisionTreePolicy[] = nodes
+      .filter(node => node.type === 'decision')
+      .map(node => {
+        const choice = bestChild(node.id);
+        return {
+          nodeId: node.id,
+          label: node.label,
+          choiceId: choice.id,
+          choice: choice.label,
+          expectedValue: this.round(nodeValues[node.id]),
+          onOptimalPath: onPath.has(node.id)
+        };
+      });
+
+    const chanceNodes = nodes.filter(node => node.type === 'chance');
+    const warnings: string[] = [];
+
+    // Chance nodes are treated as independent, so a scenario fixes one outcome at each of them
+    const scenarioCount = chanceNodes.reduce((count, node) => count * (children.get(node.id)?.length || 1), 1);
+    let evpi: number | null = null;
+    if (scenarioCount <= MAX_SCENARIOS) {
+      const withInformation = this.enumerateScenarios(chanceNodes, children).reduce((sum, scenario) =>
+        sum + scenario.probability * this.rollback(rootId, byId, children, scenario.outcomes, {}), 0);
+      evpi = Math.max(0, withInformation - expectedValue);
+    } else {
+      warnings.push(`EVPI skipped: ${scenarioCount} joint outcomes exceed the limit of ${MAX_SCENARIOS}`);
+    }
+
+    const informationValues: InformationValue[] = chanceNodes.map(node => {
+      const withInformation = (children.get(node.id) || []).reduce((sum, outcome) =>
+        sum + (outcome.probability ?? 0) * this.rollback(rootId, byId, children, new Map([[node.id, outcome.id]]), {}), 0);
+      return {
+        nodeId: node.id,
+        label: node.label,
+        valueOfPerfectInformation: this.round(Math.max(0, withInformation - expectedValue))
+      };
+    });
+
+    Object.keys(nodeValues).forEach(id => {
+      nodeValues[id] = this.round(nodeValues[id]);
+    });
+
+    return {
+      rootId,
+      expectedValue: this.round(expectedValue),
+      nodeValues,
+      policy,
+      evpi: evpi === null ? null : this.round(evpi),
+      informationValues,
+      insights: this.generateInsights(policy, expectedValue, evpi, informationValues),
+      warnings
+    };
+  }
+
+  private rollback(
+    id: string,
+    byId: Map<string, DecisionTreeNode>,
+    children: Map<string, DecisionTreeNode[]>,
+    fixedOutcomes: Map<string, string>,
+    values: Record<string, number>
+  ): number {
+    const node = byId.get(id) as DecisionTreeNode;
+    const branches = children.get(id) || [];
+    let value: number;
+
+    if (node.type === 'terminal') {
+      value = node.payoff as number;
+    } else if (node.type === 'decision') {
+      value = Math.max(...branches.map(child => this.rollback(child.id, byId, children, fixedOutcomes, values)));
+    } else {
+      const fixed = fixedOutcomes.get(id);
+      // Siblings are still rolled back so every node has a value to report
+      const outcomeValues = branches.map(child => this.rollback(child.id, byId, children, fixedOutcomes, values));
+      value = fixed
+        ? outcomeValues[branches.findIndex(child => child.id === fixed)]
+        : branches.reduce((sum, child, k) => sum + (child.probability ?? 0) * outcomeValues[k], 0);
+    }
+
+    values[id] = value - (node.cost ?? 0);
+    return values[id];
+  }
+
+  private enumerateScenarios(
+    chanceNodes: DecisionTreeNode[],
+    children: Map<string, DecisionTreeNode[]>
+  ): { probability: number; outcomes: Map<string, string> }[] {
+    let scenarios = [{ probability: 1, outcomes: new Map<string, string>() }];
+    chanceNodes.forEach(node => {
+      const outcomes = children.get(node.id) || [];
+      scenarios = scenarios.flatMap(scenario => outcomes.map(outcome => ({
+        probability: scenario.probability * (outcome.probability ?? 0),
+        outcomes: new Map([...scenario.outcomes, [node.id, outcome.id]])
+      })));
+    });
+    return scenarios.filter(scenario => scenario.probability > 0);
+  }
+
+  private generateInsights(
+    policy: DecisionTreePolicy[],
+    expectedValue: number,
+    evpi: number | null,
+    informationValues: InformationValue[]
+  ): string[] {
+    const insights: string[] = [];
+    const first = policy.find(p => p.onOptimalPath);
+    if (first) {
+      insights.push(`At "${first.label}" choose "${first.choice}" for an expected value of ${this.round(expectedValue)}`);
+    }
+    policy
+      .filter(p => p.onOptimalPath && p !== first)
+      .forEach(p => insights.push(`If "${p.label}" is reached, choose "${p.choice}" (EV ${p.expectedValue})`));
+
+    if (evpi !== null) {
+      insights.push(evpi > 0
+        ? `Perfect information about every uncertainty is worth up to ${this.round(evpi)}`
+        : 'Perfect information would not change the optimal policy');
+    }
+    const mostValuable = [...informationValues].sort((a, b) => b.valueOfPerfectInformation - a.valueOfPerfectInformation)[0];
+    if (mostValuable && mostValuable.valueOfPerfectInformation > 0) {
+      insights.push(`Resolving "${mostValuable.label}" first is the most valuable single piece of information (${mostValuable.valueOfPerfectInformation})`);
+    }
+
+    return insights;
+  }
+
+  private childrenOf(nodes: DecisionTreeNode[]): Map<string, DecisionTreeNode[]> {
+    const children = new Map<string, DecisionTreeNode[]>();
+    nodes.forEach(node => {
+      if (!node.parentId) return;
+      children.set(node.parentId, [...(children.get(node.parentId) || []), node]);
+    });
+    return children;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
+
+// Singleton instance
+export const decisionTreeService = new DecisionTreeService();
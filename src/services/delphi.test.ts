@@ -0,0 +1,89 @@
+import { describe, expect, it } from '@jest/globals';
+import { delphiService } from './delphi.js';
+import type { DelphiSubmission } from '../types/decision-types.js';
+
+const submission = (participant: string, optionId: string, score: number, rationale: string = ''): DelphiSubmission => ({
+  participant,
+  optionId,
+  criterionId: 'speed',
+  score,
+  rationale,
+  submittedAt: new Date()
+});
+
+const pairs = [{ optionId: 'a', criterionId: 'speed' }, { optionId: 'b', criterionId: 'speed' }];
+
+describe('DelphiService', () => {
+  describe('summarizeRound', () => {
+    it('converges when every pair is scored by several participants within the threshold', () => {
+      const summary = delphiService.summarizeRound(
+        [submission('P1', 'a', 6), submission('P2', 'a', 7), submission('P1', 'b', 4), submission('P2', 'b', 4)],
+        1.5,
+        { a: 'Postgres', b: 'Oracle', speed: 'Speed' },
+        pairs
+      );
+
+      expect(summary.converged).toBe(true);
+      expect(summary.participants).toBe(2);
+      expect(summary.statistics[0]).toMatchObject({ optionId: 'a', count: 2, median: 6.5, interquartileRange: 0.5, converged: true });
+      expect(summary.insights[0]).toBe('All 2 estimates are within an interquartile range of 1.5');
+    });
+
+    it('does not converge with a single participant', () => {
+      const summary = delphiService.summarizeRound([submission('P1', 'a', 6), submission('P1', 'b', 4)], 1.5, {}, pairs);
+
+      expect(summary.converged).toBe(false);
+      expect(summary.agreementShare).toBe(0);
+      expect(summary.insights[0]).toBe('Only 1 participant submitted scores - at least 2 are needed to converge');
+    });
+
+    it('does not converge while a pair has no estimates', () => {
+      const summary = delphiService.summarizeRound(
+        [submission('P1', 'a', 6), submission('P2', 'a', 6)],
+        1.5,
+        { b: 'Oracle', speed: 'Speed' },
+        pairs
+      );
+
+      expect(summary.converged).toBe(false);
+      expect(summary.missingPairs).toEqual([{ optionId: 'b', criterionId: 'speed' }]);
+      expect(summary.insights[0]).toBe('1 estimate(s) have no scores yet: Oracle / Speed');
+    });
+
+    it('reports the widest disagreement and publishes outlying rationales without pseudonyms', () => {
+      const summary = delphiService.summarizeRound(
+        [
+          submission('P1', 'a', 5), submission('P2', 'a', 5), submission('P3', 'a', 5), submission('P4', 'a', 5.5),
+          submission('P5', 'a', 10, 'Benchmarks show it is far faster'),
+          submission('P1', 'b', 1), submission('P2', 'b', 9)
+        ],
+        1.5,
+        {},
+        pairs
+      );
+
+      expect(summary.converged).toBe(false);
+      expect(summary.statistics[0].outlierRationales).toEqual([{ score: 10, rationale: 'Benchmarks show it is far faster' }]);
+      expect(summary.insights).toEqual([
+        '1 of 2 estimates have converged',
+        'Widest disagreement: b / speed (IQR 4)',
+        '1 outlying score(s) were published with their rationale'
+      ]);
+    });
+  });
+
+  describe('buildConsensus', () => {
+    it('turns round medians into group evaluations', () => {
+      const { statistics } = delphiService.summarizeRound([submission('P1', 'a', 6), submission('P2', 'a', 8)], 1.5);
+
+      expect(delphiService.buildConsensus(statistics, 2)).toEqual([{
+        id: 'delphi:a:speed',
+        optionId: 'a',
+        criterionId: 'speed',
+        score: 0.7,
+        rationale: 'Delphi consensus after 2 round(s): median 7 of 2 anonymous estimates (IQR 1)',
+        evaluatorId: 'delphi'
+      }]);
+    });
+  });
+});
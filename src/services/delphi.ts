@@ -0,0 +1,111 @@
+import type { DelphiSubmission, DelphiStatistic, CriterionEvaluation } from '../types/decision-types.js';
+import { calculatePercentile, findOutliers } from '../utils/analysis.js';
+
+export interface DelphiRoundSummary {
+  statistics: DelphiStatistic[];
+  converged: boolean;
+  // Share of scored option/criterion pairs within the convergence threshold
+  agreementShare: number;
+  participants: number;
+  // Expected option/criterion pairs nobody scored this round
+  missingPairs: { optionId: string; criterionId: string }[];
+  insights: string[];
+}
+
+// A single estimate has no spread, so agreement needs at least two participants
+const MIN_PARTICIPANTS = 2;
+
+export class DelphiService {
+  /**
+   * Anonymised statistics for one round: median, quartiles and the rationales behind outlying scores
+   */
+  summarizeRound(
+    submissions: DelphiSubmission[],
+    convergenceThreshold: number,
+    labels: Record<string, string> = {},
+    expectedPairs: { optionId: string; criterionId: string }[] = []
+  ): DelphiRoundSummary {
+    const groups = new Map<string, DelphiSubmission[]>();
+    submissions.forEach(submission => {
+      const key = `${submission.optionId}:${submission.criterionId}`;
+      groups.set(key, [...(groups.get(key) || []), submission]);
+    });
+
+    const statistics: DelphiStatistic[] = Array.from(groups.values()).map(group => {
+      const scores = group.map(s => s.score);
+      const q1 = calculatePercentile(scores, 25);
+      const q3 = calculatePercentile(scores, 75);
+      const { indices } = findOutliers(scores);
+
+      return {
+        optionId: group[0].optionId,
+        criterionId: group[0].criterionId,
+        count: group.length,
+        median: this.round(calculatePercentile(scores, 50)),
+        q1: this.round(q1),
+        q3: this.round(q3),
+        interquartileRange: this.round(q3 - q1),
+        // Rationales are published without the participant pseudonym
+        outlierRationales: indices.map(i => ({ score: group[i].score, rationale: group[i].rationale })),
+        converged: group.length >= MIN_PARTICIPANTS && q3 - q1 <= convergenceThreshold
+      };
+    });
+
+    const participants = new Set(submissions.map(s => s.participant)).size;
+    const missingPairs = expectedPairs.filter(pair => !groups.has(`${pair.optionId}:${pair.criterionId}`));
+    const agreed = statistics.filter(s => s.converged).length;
+    const converged = statistics.length > 0 && agreed === statistics.length
+      && participants >= MIN_PARTICIPANTS && missingPairs.length === 0;
+    const label = (s: { optionId: string; criterionId: string }): string =>
+      `${labels[s.optionId] || s.optionId} / ${labels[s.criterionId] || s.criterionId}`;
+
+    const insights: string[] = [];
+    if (statistics.length === 0) {
+      insights.push('No scores were submitted in this round');
+    } else if (participants < MIN_PARTICIPANTS) {
+      insights.push(`Only ${participants} participant submitted scores - at least ${MIN_PARTICIPANTS} are needed to converge`);
+    } else if (missingPairs.length > 0) {
+      insights.push(`${missingPairs.length} estimate(s) have no scores yet: ${missingPairs.slice(0, 3).map(label).join(', ')}`);
+    } else if (converged) {
+      insights.push(`All ${statistics.length} estimates are within an interquartile range of ${convergenceThreshold}`);
+    } else {
+      const widest = statistics.filter(s => !s.converged).sort((a, b) => b.interquartileRange - a.interquartileRange).slice(0, 3);
+      insights.push(`${agreed} of ${statistics.length} estimates have converged`);
+      insights.push(`Widest disagreement: ${widest.map(s => `${label(s)} (IQR ${s.interquartileRange})`).join(', ')}`);
+    }
+    const outlierCount = statistics.reduce((sum, s) => sum + s.outlierRationales.length, 0);
+    if (outlierCount > 0) {
+      insights.push(`${outlierCount} outlying score(s) were published with their rationale`);
+    }
+
+    return {
+      statistics,
+      converged,
+      agreementShare: statistics.length > 0 ? this.round(agreed / statistics.length) : 0,
+      participants,
+      missingPairs,
+      insights
+    };
+  }
+
+  /**
+   * Turn the final round's medians into group evaluations for scoring
+   */
+  buildConsensus(statistics: DelphiStatistic[], rounds: number): CriterionEvaluation[] {
+    return statistics.map(s => ({
+      id: `delphi:${s.optionId}:${s.criterionId}`,
+      optionId: s.optionId,
+      criterionId: s.criterionId,
+      score: s.median / 10,
+      rationale: `Delphi consensus after ${rounds} round(s): median ${s.median} of ${s.count} anonymous estimates (IQR ${s.interquartileRange})`,
+      evaluatorId: 'delphi'
+    }));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// Singleton instance
+export const delphiService = new DelphiService();
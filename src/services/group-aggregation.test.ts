@@ -0,0 +1,134 @@
+import { describe, expect, it } from '@jest/globals';
+import { groupAggregationService } from './group-aggregation.js';
+import { simulationService } from './simulation.js';
+import type { ScoringInput } from './scoring.js';
+import type { CriterionEvaluation, Option, ScoreDistribution } from '../types/decision-types.js';
+
+const option = (id: string): Option => ({ id, name: id, description: '', pros: [], cons: [], risks: [] });
+
+// Scores are given on the 0-10 scale and stored on 0-1
+const evaluation = (
+  evaluatorId: string,
+  optionId: string,
+  score: number,
+  distribution?: ScoreDistribution
+): CriterionEvaluation => ({
+  id: `${evaluatorId}:${optionId}`,
+  optionId,
+  criterionId: 'speed',
+  score: score / 10,
+  distribution,
+  rationale: '',
+  evaluatorId
+});
+
+const input = (evaluations: CriterionEvaluation[]): ScoringInput => ({
+  criteria: [{ id: 'speed', name: 'Speed', description: '', type: 'benefit', weight: 1 }],
+  options: [option('a'), option('b'), option('c')],
+  evaluations
+});
+
+describe('GroupAggregationService', () => {
+  describe('aggregateScores', () => {
+    const scores = [evaluation('ann', 'a', 2), evaluation('bob', 'a', 4), evaluation('cat', 'a', 9)];
+
+    it('combines evaluators with mean, median or trimmed mean', () => {
+      const combined = (strategy: 'mean' | 'median' | 'trimmed_mean'): number =>
+        Math.round(groupAggregationService.aggregateScores(scores, strategy)[0].score * 100) / 10;
+
+      expect(combined('mean')).toBe(5);
+      expect(combined('median')).toBe(4);
+      expect(combined('trimmed_mean')).toBe(4);
+    });
+
+    it("keeps only each evaluator's latest score and leaves single scores untouched", () => {
+      const single = evaluation('ann', 'b', 7);
+      const result = groupAggregationService.aggregateScores([...scores, evaluation('cat', 'a', 3), single]);
+
+      expect(result.map(e => [e.optionId, Math.round(e.score * 100) / 10])).toEqual([['a', 3], ['b', 7]]);
+      expect(result[1]).toBe(single);
+      expect(result[0].rationale).toBe('mean of 3 evaluators: ann 2, bob 4, cat 3');
+    });
+
+    it("spans every evaluator's range with a triangular distribution peaking at the group score", () => {
+      const [combined] = groupAggregationService.aggregateScores([
+        evaluation('ann', 'a', 4, { type: 'triangular', min: 3, mostLikely: 4, max: 5 }),
+        evaluation('bob', 'a', 6, { type: 'normal', mean: 6, stddev: 1 }),
+        evaluation('cat', 'a', 9)
+      ]);
+
+      expect(combined.distribution).toEqual({ type: 'triangular', min: 3, mostLikely: expect.closeTo(19 / 3), max: 9 });
+    });
+
+    it('keeps point estimates deterministic', () => {
+      expect(groupAggregationService.aggregateScores(scores)[0].distribution).toBeUndefined();
+    });
+
+    it('lets Monte Carlo analysis vary a pair several evaluators scored', () => {
+      const evaluations = groupAggregationService.aggregateScores([
+        evaluation('ann', 'a', 5, { type: 'triangular', min: 2, mostLikely: 5, max: 8 }),
+        evaluation('bob', 'a', 5, { type: 'triangular', min: 3, mostLikely: 5, max: 7 }),
+        evaluation('ann', 'b', 5),
+        evaluation('bob', 'b', 5)
+      ]);
+
+      const result = simulationService.runMonteCarlo({ ...input(evaluations), options: [option('a'), option('b')] }, { iterations: 500, seed: 9 });
+      const a = result.options.find(o => o.optionId === 'a');
+
+      expect(result.uncertainScores).toBe(1);
+      expect(a?.percentiles.p95).toBeGreaterThan(a?.percentiles.p5 as number);
+      expect(a?.probabilityBest).toBeGreaterThan(0.2);
+      expect(a?.probabilityBest).toBeLessThan(0.8);
+    });
+  });
+
+  describe('aggregateRankings', () => {
+    // ann and bob prefer a > b > c, cat prefers c > b > a
+    const ballots = input([
+      evaluation('ann', 'a', 9), evaluation('ann', 'b', 5), evaluation('ann', 'c', 1),
+      evaluation('bob', 'a', 8), evaluation('bob', 'b', 6), evaluation('bob', 'c', 2),
+      evaluation('cat', 'a', 1), evaluation('cat', 'b', 5), evaluation('cat', 'c', 9)
+    ]);
+
+    it('ranks by Borda count', () => {
+      const result = groupAggregationService.aggregateRankings(ballots, 'borda');
+
+      expect(result.rankings.map(r => [r.optionId, r.score])).toEqual([['a', 4], ['b', 3], ['c', 2]]);
+    });
+
+    it('ranks by Copeland head-to-head wins and finds the Condorcet winner', () => {
+      const result = groupAggregationService.aggregateRankings(ballots, 'copeland');
+
+      expect(result.rankings.map(r => [r.optionId, r.score])).toEqual([['a', 2], ['b', 0], ['c', -2]]);
+      expect(result.condorcetWinner).toEqual({ optionId: 'a', name: 'a' });
+    });
+
+    it('ignores heuristic auto-scores as a voter', () => {
+      const result = groupAggregationService.aggregateRankings(
+        input([evaluation('ann', 'c', 9), { ...evaluation('heuristic', 'a', 10), autoGenerated: true }]),
+        'borda'
+      );
+
+      expect(result.rankings[0].optionId).toBe('c');
+    });
+  });
+
+  describe('analyzeDisagreement', () => {
+    it('flags criteria where evaluators diverge', () => {
+      const report = groupAggregationService.analyzeDisagreement(input([
+        evaluation('ann', 'a', 2), evaluation('bob', 'a', 8),
+        evaluation('ann', 'b', 3), evaluation('bob', 'b', 7)
+      ]));
+
+      expect(report.evaluators).toEqual(['ann', 'bob']);
+      expect(report.criteria[0].mostContested).toMatchObject({ optionId: 'a', standardDeviation: 3, scores: { ann: 2, bob: 8 } });
+      expect(report.insights).toEqual(['Evaluators diverge on Speed (average spread ±2.5), most on a']);
+    });
+
+    it('reports no disagreement for a single evaluator', () => {
+      const report = groupAggregationService.analyzeDisagreement(input([evaluation('ann', 'a', 2)]));
+
+      expect(report.insights).toEqual(['Only one evaluator has scored this decision - there is no disagreement to report']);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import type { CriterionEvaluation, ScoreDistribution } from '../types/decision-types.js';
+import { calculateStandardDeviation } from '../utils/analysis.js';
+import { scoringService, type ScoringInput } from './scoring.js';
+
+export type ScoreAggregation = 'mean' | 'median' | 'trimmed_mean';
+export type RankAggregation = 'borda' | 'copeland';
+export type AggregationStrategy = ScoreAggregation | RankAggregation;
+
+export const SCORE_AGGREGATIONS: ScoreAggregation[] = ['mean', 'median', 'trimmed_mean'];
+
+// Key for scores entered without an evaluator
+export const UNATTRIBUTED_EVALUATOR = 'unattributed';
+
+export interface GroupRanking {
+  rank: number;
+  optionId: string;
+  name: string;
+  score: number;
+}
+
+export interface RankAggregationResult {
+  strategy: RankAggregation;
+  rankings: GroupRanking[];
+  // Option that beats every other option in head-to-head majority votes, if any
+  condorcetWinner: { optionId: string; name: string } | null;
+}
+
+export interface CriterionDisagreement {
+  criterionId: string;
+  name: string;
+  // Mean standard deviation of evaluator scores (0-10 scale) across options
+  averageStandardDeviation: number;
+  mostContested: { optionId: string; name: string; standardDeviation: number; scores: Record<string, number> } | null;
+}
+
+export interface DisagreementReport {
+  evaluators: string[];
+  criteria: CriterionDisagreement[];
+  overallStandardDeviation: number;
+  insights: string[];
+}
+
+// Evaluator spread above which a criterion is flagged for discussion
+const HIGH_DISAGREEMENT = 2;
+
+export class GroupAggregationService {
+  /**
+   * Combine every evaluator's score for an option/criterion pair into one group score
+   */
+  aggregateScores(evaluations: CriterionEvaluation[], strategy: ScoreAggregation = 'mean', trimRatio: number = 0.2): CriterionEvaluation[] {
+    const groups = this.groupByPair(evaluations);
+
+    return Array.from(groups.values()).map(group => {
+      if (group.length === 1) {
+        return group[0];
+      }
+
+      const scores = group.map(e => e.score);
+      const score = this.combine(scores, strategy, trimRatio);
+      return {
+        id: group[group.length - 1].id,
+        optionId: group[0].optionId,
+        criterionId: group[0].criterionId,
+        score,
+        distribution: this.combineDistributions(group, score),
+        rationale: `${strategy.replace('_', ' ')} of ${group.length} evaluators: ${group.map(e => `${e.evaluatorId || UNATTRIBUTED_EVALUATOR} ${Math.round(e.score * 100) / 10}`).join(', ')}`,
+        autoGenerated: group.every(e => e.autoGenerated) || undefined
+      };
+    });
+  }
+
+  /**
+   * Rank options by combining each evaluator's own ranking with Borda count or Copeland's method
+   */
+  aggregateRankings(input: ScoringInput, strategy: RankAggregation): RankAggregationResult {
+    // Heuristic scores are not a voter
+    const evaluations = input.evaluations.filter(e => !e.autoGenerated);
+    const ballots = this.evaluatorIds(evaluations).map(evaluatorId =>
+      scoringService.calculateScores({ ...input, evaluations: this.forEvaluator(evaluations, evaluatorId) })
+    );
+    const n = input.options.length;
+
+    // wins[a][b]: evaluators preferring option a to option b
+    const wins: number[][] = input.options.map(() => new Array(n).fill(0));
+    ballots.forEach(scores => {
+      for (let a = 0; a < n; a++) {
+        for (let b = 0; b < n; b++) {
+          if (a !== b && scores[a] > scores[b]) wins[a][b]++;
+        }
+      }
+    });
+
+    const totals = input.options.map((_, a) => {
+      if (strategy === 'borda') {
+        // Borda points: options ranked below, with ties sharing half a point
+        return ballots.reduce((sum, scores) =>
+          sum + scores.reduce((points, score, b) => points + (b === a ? 0 : score < scores[a] ? 1 : score === scores[a] ? 0.5 : 0), 0), 0);
+      }
+      // Copeland: head-to-head majority wins minus losses
+      return input.options.reduce((score, _, b) => {
+        if (a === b) return score;
+        return score + Math.sign(wins[a][b] - wins[b][a]);
+      }, 0);
+    });
+
+    const condorcet = input.options.findIndex((_, a) => input.options.every((__, b) => a === b || wins[a][b] > wins[b][a]));
+
+    const rankings = input.options
+      .map((option, i) => ({ optionId: option.id, name: option.name, score: totals[i] }))
+      .sort((a, b) => b.score - a.score)
+      .map((entry, index) => ({ rank: index + 1, ...entry }));
+
+    return {
+      strategy,
+      rankings,
+      condorcetWinner: condorcet >= 0 ? { optionId: input.options[condorcet].id, name: input.options[condorcet].name } : null
+    };
+  }
+
+  /**
+   * Report the criteria where evaluators diverge most
+   */
+  analyzeDisagreement(input: ScoringInput): DisagreementReport {
+    const evaluations = input.evaluations.filter(e => !e.autoGenerated);
+    const evaluators = this.evaluatorIds(evaluations);
+    const groups = this.groupByPair(evaluations);
+    const allDeviations: number[] = [];
+
+    const criteria: CriterionDisagreement[] = input.criteria.map(criterion => {
+      const perOption = input.options
+        .map(option => {
+          const group = groups.get(`${option.id}:${criterion.id}`) || [];
+          const values = group.map(e => e.score * 10);
+          return {
+            optionId: option.id,
+            name: option.name,
+            standardDeviation: Math.round(calculateStandardDeviation(values) * 100) / 100,
+            scores: Object.fromEntries(group.map(e => [e.evaluatorId || UNATTRIBUTED_EVALUATOR, Math.round(e.score * 100) / 10])),
+            count: values.length
+          };
+        })
+        .filter(entry => entry.count > 1);
+
+      perOption.forEach(entry => allDeviations.push(entry.standardDeviation));
+      const average = perOption.length > 0
+        ? perOption.reduce((sum, entry) => sum + entry.standardDeviation, 0) / perOption.length
+        : 0;
+      const top = [...perOption].sort((a, b) => b.standardDeviation - a.standardDeviation)[0];
+
+      return {
+        criterionId: criterion.id,
+        name: criterion.name,
+        averageStandardDeviation: Math.round(average * 100) / 100,
+        mostContested: top
+          ? { optionId: top.optionId, name: top.name, standardDeviation: top.standardDeviation, scores: top.scores }
+          : null
+      };
+    }).sort((a, b) => b.averageStandardDeviation - a.averageStandardDeviation);
+
+    const overall = allDeviations.length > 0
+      ? allDeviations.reduce((sum, value) => sum + value, 0) / allDeviations.length
+      : 0;
+
+    const insights: string[] = [];
+    if (evaluators.length < 2) {
+      insights.push('Only one evaluator has scored this decision - there is no disagreement to report');
+    } else {
+      criteria
+        .filter(c => c.averageStandardDeviation >= HIGH_DISAGREEMENT)
+        .forEach(c => insights.push(`Evaluators diverge on ${c.name} (average spread ±${c.averageStandardDeviation}), most on ${c.mostContested?.name}`));
+      if (insights.length === 0) {
+        insights.push(`Evaluators broadly agree (average spread ±${Math.round(overall * 100) / 100} points)`);
+      }
+    }
+
+    return {
+      evaluators,
+      criteria,
+      overallStandardDeviation: Math.round(overall * 100) / 100,
+      insights
+    };
+  }
+
+  /**
+   * Distinct evaluator IDs in entry order
+   */
+  evaluatorIds(evaluations: CriterionEvaluation[]): string[] {
+    return Array.from(new Set(evaluations.map(e => e.evaluatorId || UNATTRIBUTED_EVALUATOR)));
+  }
+
+  private forEvaluator(evaluations: CriterionEvaluation[], evaluatorId: string): CriterionEvaluation[] {
+    return evaluations.filter(e => (e.evaluatorId || UNATTRIBUTED_EVALUATOR) === evaluatorId);
+  }
+
+  private groupByPair(evaluations: CriterionEvaluation[]): Map<string, CriterionEvaluation[]> {
+    // Keep only each evaluator's latest score for a pair
+    const latest = new Map<string, CriterionEvaluation>();
+    evaluations.forEach(e => latest.set(`${e.optionId}:${e.criterionId}:${e.evaluatorId || UNATTRIBUTED_EVALUATOR}`, e));
+
+    const groups = new Map<string, CriterionEvaluation[]>();
+    latest.forEach(e => {
+      const key = `${e.optionId}:${e.criterionId}`;
+      groups.set(key, [...(groups.get(key) || []), e]);
+    });
+    return groups;
+  }
+
+  private combineDistributions(group: CriterionEvaluation[], score: number): ScoreDistribution | undefined {
+    // Point estimates alone stay deterministic, as they are for a single evaluator
+    if (!group.some(e => e.distribution)) {
+      return undefined;
+    }
+
+    // Triangular over the widest range any evaluator allows, peaking at the group score; a normal spans mean ± 2 standard deviations
+    const bounds = group.map(({ distribution, score: point }) => {
+      if (!distribution) return [point * 10, point * 10];
+      return distribution.type === 'triangular'
+        ? [distribution.min, distribution.max]
+        : [Math.max(0, distribution.mean - 2 * distribution.stddev), Math.min(10, distribution.mean + 2 * distribution.stddev)];
+    });
+    const min = Math.min(...bounds.map(([lower]) => lower));
+    const max = Math.max(...bounds.map(([, upper]) => upper));
+    return { type: 'triangular', min, mostLikely: Math.min(max, Math.max(min, score * 10)), max };
+  }
+
+  private combine(scores: number[], strategy: ScoreAggregation, trimRatio: number): number {
+    const sorted = [...scores].sort((a, b) => a - b);
+    if (strategy === 'median') {
+      const middle = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+    }
+
+    // Trimmed mean drops the same number of scores from each end: at least one once there are three, never all of them
+    const trim = strategy === 'trimmed_mean'
+      ? Math.min(Math.max(sorted.length >= 3 ? 1 : 0, Math.floor(sorted.length * trimRatio)), Math.floor((sorted.length - 1) / 2))
+      : 0;
+    const kept = sorted.slice(trim, sorted.length - trim);
+    return kept.reduce((sum, score) => sum + score, 0) / kept.length;
+  }
+}
+
+// Singleton instance
+export const groupAggregationService = new GroupAggregationService();
@@ -0,0 +1,50 @@
+import { describe, expect, it } from '@jest/globals';
+import { heuristicEvaluator } from './heuristic-evaluator.js';
+import type { Criteria, Option } from '../types/decision-types.js';
+
+const option = (fields: Partial<Option> & Pick<Option, 'id'>): Option => ({
+  name: fields.id,
+  description: '',
+  pros: [],
+  cons: [],
+  risks: [],
+  ...fields
+});
+
+const cost: Criteria = { id: 'cost', name: 'Cost', description: 'Total licence cost', type: 'cost', weight: 0.5 };
+const performance: Criteria = { id: 'performance', name: 'Performance', description: 'Query performance', type: 'benefit', weight: 0.5 };
+
+describe('HeuristicEvaluatorService', () => {
+  describe('evaluate', () => {
+    it('scores a cost criterion as magnitude, lower for the cheaper option', () => {
+      const scores = heuristicEvaluator.evaluate([cost], [
+        option({ id: 'cheap', estimatedCost: 100 }),
+        option({ id: 'pricey', estimatedCost: 200 })
+      ]);
+
+      expect(scores.map(s => [s.optionId, s.score])).toEqual([['cheap', 3], ['pricey', 7]]);
+      expect(scores[0].reasoning).toContain('estimated cost 100 relative to other options (+2)');
+    });
+
+    it('raises a benefit score for a pro that matches the criterion', () => {
+      const [matched, neutral] = heuristicEvaluator.evaluate([performance], [
+        option({ id: 'a', pros: ['Excellent query performance'] }),
+        option({ id: 'b' })
+      ]);
+
+      expect(matched.score).toBe(6.5);
+      expect(matched.reasoning).toContain('matches criterion');
+      expect(neutral.score).toBe(5);
+      expect(neutral.reasoning).toContain('no pros, cons, risks or estimates relate to this criterion');
+    });
+
+    it('returns the same scores on every run', () => {
+      const options = [
+        option({ id: 'a', pros: ['Fast queries'], cons: ['Expensive support'], risks: ['Vendor lock-in'], estimatedCost: 300 }),
+        option({ id: 'b', pros: ['Open source'], estimatedCost: 100, estimatedTime: '2 weeks' })
+      ];
+
+      expect(heuristicEvaluator.evaluate([cost, performance], options)).toEqual(heuristicEvaluator.evaluate([cost, performance], options));
+    });
+  });
+});
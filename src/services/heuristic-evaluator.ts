@@ -0,0 +1,114 @@
+import type { Criteria, Option } from '../types/decision-types.js';
+import { nlpService } from './nlp.js';
+import { normalize, parseDurationToDays } from '../utils/analysis.js';
+
+export interface HeuristicScore {
+  optionId: string;
+  criterionId: string;
+  // 0-10 on the criterion's own scale (magnitude for cost and risk criteria)
+  score: number;
+  reasoning: string;
+}
+
+interface Contribution {
+  label: string;
+  delta: number;
+}
+
+// Item-to-criterion Jaccard similarity above which an item counts as relevant
+const RELEVANCE_THRESHOLD = 0.1;
+
+const COST_TERMS = ['cost', 'price', 'budget', 'expense', 'spend', 'tco', 'pricing', 'affordable'];
+const TIME_TERMS = ['time', 'speed', 'schedule', 'timeline', 'delivery', 'duration', 'fast', 'quick', 'launch'];
+
+export class HeuristicEvaluatorService {
+  /**
+   * Derive explainable 0-10 scores from option text and estimates, without randomness
+   */
+  evaluate(criteria: Criteria[], options: Option[]): HeuristicScore[] {
+    const costPositions = this.relativePositions(options.map(o => o.estimatedCost ?? null));
+    const timePositions = this.relativePositions(options.map(o => (o.estimatedTime ? parseDurationToDays(o.estimatedTime) : null)));
+
+    const scores: HeuristicScore[] = [];
+    criteria.forEach(criterion => {
+      const criterionText = `${criterion.name} ${criterion.description}`;
+      const keywords = new Set(nlpService.analyzeKeywords(criterionText).keywords.map(k => k.word));
+      const minimise = criterion.type === 'cost' || criterion.type === 'risk';
+
+      options.forEach((option, i) => {
+        const contributions: Contribution[] = [];
+        const isRelevant = (text: string): boolean => this.isRelevant(text, criterionText, keywords);
+
+        option.pros.forEach(pro => {
+          const relevant = isRelevant(pro);
+          contributions.push({ label: `pro "${pro}"${relevant ? ' matches criterion' : ''}`, delta: relevant ? 1.5 : 0.25 });
+        });
+        option.cons.forEach(con => {
+          const relevant = isRelevant(con);
+          contributions.push({ label: `con "${con}"${relevant ? ' matches criterion' : ''}`, delta: relevant ? -1.5 : -0.25 });
+        });
+        option.risks.forEach(risk => {
+          const relevant = isRelevant(risk);
+          if (relevant || criterion.type === 'risk') {
+            contributions.push({ label: `risk "${risk}"${relevant ? ' matches criterion' : ''}`, delta: relevant ? -1.5 : -0.5 });
+          }
+        });
+
+        if (costPositions[i] !== null && this.mentions(keywords, COST_TERMS, criterion.type === 'cost')) {
+          // Cheapest option gets +2, most expensive -2
+          contributions.push({ label: `estimated cost ${option.estimatedCost} relative to other options`, delta: (0.5 - (costPositions[i] as number)) * 4 });
+        }
+        if (timePositions[i] !== null && this.mentions(keywords, TIME_TERMS, criterion.type === 'feasibility')) {
+          contributions.push({ label: `estimated time "${option.estimatedTime}" relative to other options`, delta: (0.5 - (timePositions[i] as number)) * 4 });
+        }
+
+        // Contributions describe desirability; cost and risk criteria are scored as magnitude
+        const desirability = Math.min(10, Math.max(0, 5 + contributions.reduce((sum, c) => sum + c.delta, 0)));
+        const score = Math.round((minimise ? 10 - desirability : desirability) * 2) / 2;
+
+        scores.push({
+          optionId: option.id,
+          criterionId: criterion.id,
+          score,
+          reasoning: this.describe(criterion, score, minimise, contributions)
+        });
+      });
+    });
+
+    return scores;
+  }
+
+  private isRelevant(text: string, criterionText: string, keywords: Set<string>): boolean {
+    if (nlpService.analyzeSimilarity(text, criterionText).similarity >= RELEVANCE_THRESHOLD) {
+      return true;
+    }
+    const words = nlpService.analyzeKeywords(text).keywords.map(k => k.word);
+    return words.some(word => keywords.has(word));
+  }
+
+  private mentions(keywords: Set<string>, terms: string[], byType: boolean): boolean {
+    return byType || terms.some(term => keywords.has(term));
+  }
+
+  private relativePositions(values: (number | null)[]): (number | null)[] {
+    const known = values.filter((v): v is number => v !== null);
+    if (known.length < 2) {
+      return values.map(() => null);
+    }
+    const normalised = normalize(known);
+    let k = 0;
+    return values.map(v => (v === null ? null : normalised[k++]));
+  }
+
+  private describe(criterion: Criteria, score: number, minimise: boolean, contributions: Contribution[]): string {
+    const applied = contributions.filter(c => c.delta !== 0);
+    const details = applied.length > 0
+      ? applied.map(c => `${c.label} (${c.delta > 0 ? '+' : ''}${Math.round(c.delta * 100) / 100})`).join('; ')
+      : 'no pros, cons, risks or estimates relate to this criterion';
+    const scale = minimise ? ` (${criterion.type} magnitude, inverse of desirability ${10 - score})` : '';
+    return `Auto-generated ${score}/10${scale} for ${criterion.name}, desirability adjusted from neutral 5: ${details}`;
+  }
+}
+
+// Singleton instance
+export const heuristicEvaluator = new HeuristicEvaluatorService();
@@ -0,0 +1,120 @@
+import { describe, expect, it } from '@jest/globals';
+import { mcdaService } from './mcda.js';
+import type { DecisionMatrix } from './scoring.js';
+import type { Criteria, Option } from '../types/decision-types.js';
+
+const criteria: Criteria[] = [
+  { id: 'speed', name: 'Speed', description: '', weight: 0.5, type: 'benefit' },
+  { id: 'ease', name: 'Ease', description: '', weight: 0.5, type: 'benefit' }
+];
+
+const option = (id: string): Option => ({ id, name: id.toUpperCase(), description: '', pros: [], cons: [], risks: [] });
+
+// Every option scores the same, so only explicit judgements separate them
+const matrix = (options: Option[]): DecisionMatrix => ({
+  criteria,
+  options,
+  cells: options.map(() => criteria.map(() => ({ value: 5, source: 'evaluation' as const })))
+});
+
+describe('MCDAService', () => {
+  describe('calculatePairwisePriorities', () => {
+    it('derives priorities and a zero consistency ratio from a consistent matrix', () => {
+      const result = mcdaService.calculatePairwisePriorities([[1, 2, 4], [0.5, 1, 2], [0.25, 0.5, 1]]);
+
+      expect(result.priorities.map(p => Math.round(p * 1000) / 1000)).toEqual([0.571, 0.286, 0.143]);
+      expect(result.consistencyRatio).toBeCloseTo(0, 3);
+      expect(result.isConsistent).toBe(true);
+    });
+
+    it('flags contradictory judgements', () => {
+      const result = mcdaService.calculatePairwisePriorities([[1, 9, 1 / 9], [1 / 9, 1, 9], [9, 1 / 9, 1]]);
+
+      expect(result.consistencyRatio).toBeGreaterThan(0.1);
+      expect(result.isConsistent).toBe(false);
+    });
+  });
+
+  describe('ahp', () => {
+    it('uses criteria judgements in place of the stated weights', () => {
+      const result = mcdaService.ahp(matrix([option('a'), option('b')]), { criteria: [[1, 3], [1 / 3, 1]] });
+
+      expect(result.details.criterionWeights).toEqual([
+        { criterionId: 'speed', weight: 0.75 },
+        { criterionId: 'ease', weight: 0.25 }
+      ]);
+    });
+
+    it('maps option matrices in session order onto the scored options', () => {
+      // Session order a, b, c; b is not scored and c is strongly preferred on speed
+      const comparisons = {
+        options: { Speed: [[1, 1, 1 / 7], [1, 1, 1 / 7], [7, 7, 1]] },
+        optionOrder: ['a', 'b', 'c']
+      };
+      const result = mcdaService.ahp(matrix([option('a'), option('c')]), comparisons);
+
+      expect(result.scores[1]).toBeGreaterThan(result.scores[0]);
+      expect(result.scores[0] + result.scores[1]).toBeCloseTo(1);
+    });
+
+    it('rejects option matrices that do not match the session order', () => {
+      const comparisons = { options: { Speed: [[1, 2], [0.5, 1]] }, optionOrder: ['a', 'b', 'c'] };
+
+      expect(() => mcdaService.ahp(matrix([option('a'), option('c')]), comparisons)).toThrow('must be 3x3');
+    });
+
+    it('rejects option matrices that leave out a scored option', () => {
+      const comparisons = { options: { Speed: [[1, 2], [0.5, 1]] }, optionOrder: ['a', 'b'] };
+
+      expect(() => mcdaService.ahp(matrix([option('a'), option('c')]), comparisons)).toThrow('do not cover option C');
+    });
+  });
+
+  describe('weightedProduct', () => {
+    it('penalises a weak criterion more than a weighted average would', () => {
+      const result = mcdaService.weightedProduct({
+        criteria,
+        options: [option('balanced'), option('lopsided')],
+        cells: [
+          [{ value: 5, source: 'evaluation' }, { value: 5, source: 'evaluation' }],
+          [{ value: 9, source: 'evaluation' }, { value: 1, source: 'evaluation' }]
+        ]
+      });
+
+      expect(result.scores[0]).toBeCloseTo(5);
+      expect(result.scores[1]).toBeCloseTo(3);
+    });
+  });
+
+  describe('promethee', () => {
+    it('gives opposite net flows to an option that beats the other on every criterion', () => {
+      const result = mcdaService.promethee({
+        criteria,
+        options: [option('a'), option('b')],
+        cells: [
+          [{ value: 9, source: 'evaluation' }, { value: 8, source: 'evaluation' }],
+          [{ value: 3, source: 'evaluation' }, { value: 4, source: 'evaluation' }]
+        ]
+      });
+
+      expect(result.scores).toEqual([1, -1]);
+      expect(result.scale).toEqual({ min: -1, max: 1 });
+    });
+  });
+
+  describe('topsis', () => {
+    it('puts the option closest to the ideal first', () => {
+      const result = mcdaService.topsis({
+        criteria,
+        options: [option('a'), option('b')],
+        cells: [
+          [{ value: 9, source: 'evaluation' }, { value: 8, source: 'evaluation' }],
+          [{ value: 3, source: 'evaluation' }, { value: 4, source: 'evaluation' }]
+        ]
+      });
+
+      expect(result.scores[0]).toBeCloseTo(1);
+      expect(result.scores[1]).toBeCloseTo(0);
+    });
+  });
+});
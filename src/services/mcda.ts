@@ -0,0 +1,277 @@
+import type { DecisionMatrix } from './scoring.js';
+
+export type ScoringMethod = 'weighted_sum' | 'weighted_product' | 'topsis' | 'ahp' | 'promethee';
+
+export const SCORING_METHODS: ScoringMethod[] = ['weighted_sum', 'weighted_product', 'topsis', 'ahp', 'promethee'];
+
+export const SCORING_METHOD_LABELS: Record<ScoringMethod, string> = {
+  weighted_sum: 'Weighted Sum',
+  weighted_product: 'Weighted Product',
+  topsis: 'TOPSIS',
+  ahp: 'AHP',
+  promethee: 'PROMETHEE II'
+};
+
+export interface PairwiseComparisons {
+  // Saaty-scale matrix over criteria in session order
+  criteria?: number[][];
+  // Saaty-scale matrices over options in session order, keyed by criterion id or name
+  options?: Record<string, number[][]>;
+  // Option ids in the order the option matrices use; defaults to the scored options
+  optionOrder?: string[];
+}
+
+export interface PairwisePriorities {
+  priorities: number[];
+  lambdaMax: number;
+  consistencyIndex: number;
+  consistencyRatio: number;
+  isConsistent: boolean;
+}
+
+export interface MethodScores {
+  scores: number[];
+  scale: { min: number; max: number };
+  details: Record<string, unknown>;
+  warnings: string[];
+}
+
+// Saaty's random consistency index by matrix size
+const RANDOM_INDEX = [0, 0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49];
+
+// Value substituted for option/criterion pairs without a score
+const NEUTRAL_SCORE = 5;
+
+export class MCDAService {
+  /**
+   * Weighted product model: geometric mean of criterion scores raised to their weights
+   */
+  weightedProduct(matrix: DecisionMatrix): MethodScores {
+    const weights = this.normaliseWeights(matrix.criteria.map(c => c.weight));
+    const values = this.completeValues(matrix);
+
+    // Floor at 1% of the scale so a single zero does not erase every other criterion
+    const scores = values.map(row =>
+      row.reduce((product, value, j) => product * Math.pow(Math.max(value, 0.1) / 10, weights[j]), 1) * 10
+    );
+
+    return { scores, scale: { min: 0, max: 10 }, details: {}, warnings: this.missingWarnings(matrix) };
+  }
+
+  /**
+   * TOPSIS: relative closeness to the ideal solution and distance from the anti-ideal
+   */
+  topsis(matrix: DecisionMatrix): MethodScores {
+    const weights = this.normaliseWeights(matrix.criteria.map(c => c.weight));
+    const values = this.completeValues(matrix);
+
+    const norms = matrix.criteria.map((_, j) =>
+      Math.sqrt(values.reduce((sum, row) => sum + row[j] * row[j], 0))
+    );
+    const weighted = values.map(row => row.map((value, j) => (norms[j] > 0 ? (value / norms[j]) * weights[j] : 0)));
+
+    // Scores are already oriented so higher is better on every criterion
+    const ideal = matrix.criteria.map((_, j) => Math.max(...weighted.map(row => row[j])));
+    const antiIdeal = matrix.criteria.map((_, j) => Math.min(...weighted.map(row => row[j])));
+
+    const distances = weighted.map(row => ({
+      toIdeal: Math.sqrt(row.reduce((sum, value, j) => sum + Math.pow(value - ideal[j], 2), 0)),
+      toAntiIdeal: Math.sqrt(row.reduce((sum, value, j) => sum + Math.pow(value - antiIdeal[j], 2), 0))
+    }));
+
+    const scores = distances.map(d => {
+      const total = d.toIdeal + d.toAntiIdeal;
+      return total > 0 ? d.toAntiIdeal / total : 0.5;
+    });
+
+    return {
+      scores,
+      scale: { min: 0, max: 1 },
+      details: {
+        distances: matrix.options.map((option, i) => ({
+          optionId: option.id,
+          toIdeal: this.round(distances[i].toIdeal, 4),
+          toAntiIdeal: this.round(distances[i].toAntiIdeal, 4)
+        }))
+      },
+      warnings: this.missingWarnings(matrix)
+    };
+  }
+
+  /**
+   * AHP: synthesise criterion weights and per-criterion option priorities from pairwise comparisons
+   */
+  ahp(matrix: DecisionMatrix, comparisons: PairwiseComparisons = {}): MethodScores {
+    const warnings = this.missingWarnings(matrix);
+    const consistency: Record<string, number> = {};
+
+    let criterionWeights = this.normaliseWeights(matrix.criteria.map(c => c.weight));
+    if (comparisons.criteria) {
+      this.assertSquare(comparisons.criteria, matrix.criteria.length, 'Criteria pairwise matrix');
+      const result = this.calculatePairwisePriorities(comparisons.criteria);
+      criterionWeights = result.priorities;
+      consistency.criteria = this.round(result.consistencyRatio, 4);
+      if (!result.isConsistent) {
+        warnings.push(`Criteria comparisons are inconsistent (CR ${consistency.criteria} > 0.1)`);
+      }
+    }
+
+    // Options left out of scoring are dropped from the judgements, leaving a submatrix over the scored options
+    const order = comparisons.optionOrder || matrix.options.map(option => option.id);
+    const indices = matrix.options.map(option => order.indexOf(option.id));
+    const uncovered = matrix.options.find((_, i) => indices[i] < 0);
+    if (comparisons.options && uncovered) {
+      throw new Error(`Option pairwise matrices do not cover option ${uncovered.name}`);
+    }
+
+    const values = this.completeValues(matrix);
+    const localPriorities = matrix.criteria.map((criterion, j) => {
+      const supplied = comparisons.options?.[criterion.id] || comparisons.options?.[criterion.name];
+      if (supplied) {
+        this.assertSquare(supplied, order.length, `Option pairwise matrix for ${criterion.name}`);
+        const result = this.calculatePairwisePriorities(indices.map(a => indices.map(b => supplied[a][b])));
+        consistency[criterion.name] = this.round(result.consistencyRatio, 4);
+        if (!result.isConsistent) {
+          warnings.push(`Option comparisons for ${criterion.name} are inconsistent (CR ${consistency[criterion.name]} > 0.1)`);
+        }
+        return result.priorities;
+      }
+
+      // Without explicit judgements, score ratios form a perfectly consistent matrix
+      const column = values.map(row => Math.max(row[j], 0.1));
+      const total = column.reduce((sum, value) => sum + value, 0);
+      return column.map(value => value / total);
+    });
+
+    const scores = matrix.options.map((_, i) =>
+      criterionWeights.reduce((sum, weight, j) => sum + weight * localPriorities[j][i], 0)
+    );
+
+    return {
+      scores,
+      scale: { min: 0, max: 1 },
+      details: {
+        criterionWeights: matrix.criteria.map((criterion, j) => ({
+          criterionId: criterion.id,
+          weight: this.round(criterionWeights[j], 4)
+        })),
+        consistencyRatios: consistency
+      },
+      warnings
+    };
+  }
+
+  /**
+   * PROMETHEE II: net outranking flow using a linear preference function per criterion
+   */
+  promethee(matrix: DecisionMatrix): MethodScores {
+    const weights = this.normaliseWeights(matrix.criteria.map(c => c.weight));
+    const values = this.completeValues(matrix);
+    const n = matrix.options.length;
+
+    // Preference threshold is the spread of each criterion across options
+    const thresholds = matrix.criteria.map((_, j) => {
+      const column = values.map(row => row[j]);
+      return Math.max(...column) - Math.min(...column);
+    });
+
+    const preference = (a: number, b: number): number =>
+      weights.reduce((sum, weight, j) => {
+        const difference = values[a][j] - values[b][j];
+        if (difference <= 0 || thresholds[j] === 0) return sum;
+        return sum + weight * Math.min(1, difference / thresholds[j]);
+      }, 0);
+
+    const positive: number[] = new Array(n).fill(0);
+    const negative: number[] = new Array(n).fill(0);
+    for (let a = 0; a < n; a++) {
+      for (let b = 0; b < n; b++) {
+        if (a === b) continue;
+        positive[a] += preference(a, b);
+        negative[a] += preference(b, a);
+      }
+    }
+
+    const divisor = Math.max(n - 1, 1);
+    const scores = positive.map((flow, i) => (flow - negative[i]) / divisor);
+
+    return {
+      scores,
+      scale: { min: -1, max: 1 },
+      details: {
+        flows: matrix.options.map((option, i) => ({
+          optionId: option.id,
+          positive: this.round(positive[i] / divisor, 4),
+          negative: this.round(negative[i] / divisor, 4)
+        }))
+      },
+      warnings: this.missingWarnings(matrix)
+    };
+  }
+
+  /**
+   * Principal eigenvector priorities and Saaty consistency ratio of a pairwise comparison matrix
+   */
+  calculatePairwisePriorities(comparisons: number[][]): PairwisePriorities {
+    const n = comparisons.length;
+    if (n === 0) {
+      return { priorities: [], lambdaMax: 0, consistencyIndex: 0, consistencyRatio: 0, isConsistent: true };
+    }
+
+    // Power iteration converges quickly for positive reciprocal matrices
+    let priorities: number[] = new Array(n).fill(1 / n);
+    for (let iteration = 0; iteration < 100; iteration++) {
+      const next = comparisons.map(row => row.reduce((sum, value, j) => sum + value * priorities[j], 0));
+      const total = next.reduce((sum, value) => sum + value, 0);
+      const normalised = next.map(value => value / total);
+      const delta = normalised.reduce((max, value, i) => Math.max(max, Math.abs(value - priorities[i])), 0);
+      priorities = normalised;
+      if (delta < 1e-10) break;
+    }
+
+    const weightedSums = comparisons.map(row => row.reduce((sum, value, j) => sum + value * priorities[j], 0));
+    const lambdaMax = weightedSums.reduce((sum, value, i) => sum + value / priorities[i], 0) / n;
+    const consistencyIndex = n > 1 ? (lambdaMax - n) / (n - 1) : 0;
+    const randomIndex = RANDOM_INDEX[Math.min(n, RANDOM_INDEX.length - 1)];
+    const consistencyRatio = randomIndex > 0 ? Math.max(0, consistencyIndex / randomIndex) : 0;
+
+    return {
+      priorities,
+      lambdaMax,
+      consistencyIndex,
+      consistencyRatio,
+      isConsistent: consistencyRatio <= 0.1
+    };
+  }
+
+  private completeValues(matrix: DecisionMatrix): number[][] {
+    return matrix.cells.map(row => row.map(cell => (cell ? cell.value : NEUTRAL_SCORE)));
+  }
+
+  private missingWarnings(matrix: DecisionMatrix): string[] {
+    const missing = matrix.cells.reduce((count, row) => count + row.filter(cell => !cell).length, 0);
+    return missing > 0 ? [`${missing} missing score(s) treated as neutral ${NEUTRAL_SCORE}/10`] : [];
+  }
+
+  private normaliseWeights(weights: number[]): number[] {
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    return total > 0 ? weights.map(weight => weight / total) : weights.map(() => 1 / (weights.length || 1));
+  }
+
+  private assertSquare(comparisons: number[][], size: number, label: string): void {
+    if (comparisons.length !== size || comparisons.some(row => row.length !== size)) {
+      throw new Error(`${label} must be ${size}x${size}`);
+    }
+    if (comparisons.some(row => row.some(value => !(value > 0)))) {
+      throw new Error(`${label} must contain positive values only`);
+    }
+  }
+
+  private round(value: number, digits: number): number {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+  }
+}
+
+// Singleton instance
+export const mcdaService = new MCDAService();
@@ -25,9 +25,21 @@ const SimilarityAnalysisSchema = z.object({
   differences: z.array(z.string())
 });
 
+const WordDiffSchema = z.object({
+  segments: z.array(z.object({
+    type: z.enum(['equal', 'added', 'removed']),
+    text: z.string()
+  })),
+  addedWords: z.number(),
+  removedWords: z.number(),
+  // git --word-diff style: [-removed-]{+added+}
+  rendered: z.string()
+});
+
 export type KeywordAnalysis = z.infer<typeof KeywordAnalysisSchema>;
 export type Summary = z.infer<typeof SummarySchema>;
 export type SimilarityAnalysis = z.infer<typeof SimilarityAnalysisSchema>;
+export type WordDiff = z.infer<typeof WordDiffSchema>;
 
 export class NLPService {
   private stopWords = new Set([
@@ -160,6 +172,57 @@ export class NLPService {
     };
   }
 
+  /**
+   * Word-level diff between two texts, from the longest common subsequence of words
+   */
+  diffWords(before: string, after: string): WordDiff {
+    const a = before.split(/\s+/).filter(word => word.length > 0);
+    const b = after.split(/\s+/).filter(word => word.length > 0);
+
+    // lcs[i][j] is the common subsequence length of a[i..] and b[j..]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const words: { type: 'equal' | 'added' | 'removed'; word: string }[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        words.push({ type: 'equal', word: a[i++] });
+        j++;
+      } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        // Removals come first, so a replacement reads old then new
+        words.push({ type: 'removed', word: a[i++] });
+      } else {
+        words.push({ type: 'added', word: b[j++] });
+      }
+    }
+
+    // Runs of the same type read better than single words
+    const segments: WordDiff['segments'] = [];
+    words.forEach(({ type, word }) => {
+      const last = segments[segments.length - 1];
+      if (last && last.type === type) {
+        last.text += ` ${word}`;
+      } else {
+        segments.push({ type, text: word });
+      }
+    });
+
+    return {
+      segments,
+      addedWords: words.filter(w => w.type === 'added').length,
+      removedWords: words.filter(w => w.type === 'removed').length,
+      rendered: segments
+        .map(segment => segment.type === 'equal' ? segment.text : segment.type === 'added' ? `{+${segment.text}+}` : `[-${segment.text}-]`)
+        .join(' ')
+    };
+  }
+
   /**
    * Extract entities (simplified NER)
    */
@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@jest/globals';
+import { retrospectiveService, type RetrospectiveInput } from './retrospective.js';
+import type { Option, Outcome } from '../types/decision-types.js';
+
+const options: Option[] = [
+  { id: 'pg', name: 'Postgres', description: '', pros: [], cons: [], risks: [], estimatedCost: 1000, estimatedTime: '2 weeks' },
+  { id: 'ora', name: 'Oracle', description: '', pros: [], cons: [], risks: [], estimatedCost: 5000, estimatedTime: '1 month' }
+];
+
+const outcome = (id: string, optionId: string, fields: Partial<Outcome>, day: number = 1): Outcome => ({
+  id,
+  optionId,
+  recordedAt: new Date(2026, 0, day),
+  ...fields
+});
+
+const input = (outcomes: Outcome[], overrides: Partial<RetrospectiveInput> = {}): RetrospectiveInput => ({
+  options,
+  outcomes,
+  recommendedOptionId: 'pg',
+  confidence: 0.6,
+  predictedScores: { pg: 8, ora: 6 },
+  ...overrides
+});
+
+describe('RetrospectiveService', () => {
+  describe('buildReport', () => {
+    it('compares actual cost, time and rating with the estimates', () => {
+      const report = retrospectiveService.buildReport(input([
+        outcome('o1', 'pg', { actualCost: 1500, actualTime: '3 weeks', successRating: 5 })
+      ]));
+
+      expect(report.latest[0]).toMatchObject({
+        name: 'Postgres',
+        recommended: true,
+        cost: { estimated: 1000, actual: 1500, variance: 500, variancePercent: 50 },
+        time: { estimated: 14, actual: 21, variance: 7, variancePercent: 50 },
+        scoreGap: -3
+      });
+      expect(report.summary.followedRecommendation).toBe(true);
+      expect(report.lessons).toEqual([
+        'Postgres cost 1500 against an estimate of 1000 (+50%)',
+        'Postgres took 21 days against an estimate of 14 (+50%)',
+        'Postgres under-delivered: rated 5/10 against a predicted 8/10 - revisit the scores or weights that favoured it',
+        'Every cost and time estimate was optimistic - add contingency to future estimates'
+      ]);
+    });
+
+    it('notes when the team chose another option than the recommendation', () => {
+      const report = retrospectiveService.buildReport(input([outcome('o1', 'ora', { actualCost: 5000, successRating: 6 })]));
+
+      expect(report.summary.followedRecommendation).toBe(false);
+      expect(report.lessons).toEqual(['The team went with Oracle rather than the recommended Postgres']);
+    });
+
+    it('flags a confident recommendation that was rated poorly', () => {
+      const report = retrospectiveService.buildReport(input(
+        [outcome('o1', 'pg', { successRating: 4 })],
+        { confidence: 0.8, predictedScores: { pg: 5 } }
+      ));
+
+      expect(report.lessons).toEqual(['The recommendation was made with confidence 0.8 but rated 4/10 - the analysis was overconfident']);
+    });
+
+    it('summarises the latest outcome per option and tracks ratings over time', () => {
+      const report = retrospectiveService.buildReport(input([
+        outcome('o2', 'pg', { actualTime: 14, successRating: 6 }, 20),
+        outcome('o1', 'pg', { actualTime: 14, successRating: 8 }, 5)
+      ]));
+
+      expect(report.outcomeCount).toBe(2);
+      expect(report.latest.map(c => c.outcomeId)).toEqual(['o2']);
+      expect(report.summary).toMatchObject({ averageTimeVariancePercent: 0, averageSuccessRating: 6, averageScoreGap: -2 });
+      expect(report.lessons).toContain("Postgres's success rating moved from 8 to 6 across 2 reviews");
+    });
+
+    it('asks for outcomes when none are recorded', () => {
+      const report = retrospectiveService.buildReport(input([]));
+
+      expect(report.summary.followedRecommendation).toBeNull();
+      expect(report.lessons).toEqual(['No outcomes recorded yet - record actual cost, time and a success rating once results are known']);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import type { Option, Outcome } from '../types/decision-types.js';
+import { parseDurationToDays } from '../utils/analysis.js';
+
+export interface RetrospectiveInput {
+  options: Option[];
+  outcomes: Outcome[];
+  recommendedOptionId: string | null;
+  // Recommendation confidence 0-1, when a recommendation was made
+  confidence: number | null;
+  // Analysis score of each option rescaled to 0-10, comparable with success ratings
+  predictedScores: Record<string, number>;
+}
+
+export interface Variance {
+  estimated: number;
+  actual: number;
+  // Actual minus estimate; positive means over budget or late
+  variance: number;
+  variancePercent: number | null;
+}
+
+export interface OutcomeComparison {
+  outcomeId: string;
+  optionId: string;
+  name: string;
+  recommended: boolean;
+  recordedAt: Date;
+  cost: Variance | null;
+  // Durations in days
+  time: Variance | null;
+  successRating: number | null;
+  predictedScore: number | null;
+  // Success rating minus predicted score; negative means the option under-delivered
+  scoreGap: number | null;
+  notes: string | null;
+}
+
+export interface RetrospectiveReport {
+  outcomeCount: number;
+  comparisons: OutcomeComparison[];
+  // Latest recorded outcome for each option that was tried
+  latest: OutcomeComparison[];
+  summary: {
+    followedRecommendation: boolean | null;
+    averageCostVariancePercent: number | null;
+    averageTimeVariancePercent: number | null;
+    averageSuccessRating: number | null;
+    averageScoreGap: number | null;
+  };
+  lessons: string[];
+}
+
+// Gap between rating and predicted score (0-10) treated as a real surprise
+const SIGNIFICANT_GAP = 2;
+
+// Variance within this share of the estimate counts as on target
+const ESTIMATE_TOLERANCE = 0.1;
+
+export class RetrospectiveService {
+  /**
+   * Compare recorded outcomes with the original estimates and scores
+   */
+  buildReport(input: RetrospectiveInput): RetrospectiveReport {
+    const byId = new Map(input.options.map(option => [option.id, option]));
+    const comparisons = [...input.outcomes]
+      .sort((a, b) => new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime())
+      .map(outcome => this.compare(outcome, byId.get(outcome.optionId), input));
+
+    const latestByOption = new Map<string, OutcomeComparison>();
+    comparisons.forEach(comparison => latestByOption.set(comparison.optionId, comparison));
+    const latest = Array.from(latestByOption.values());
+
+    const tried = new Set(latest.map(c => c.optionId));
+    const followedRecommendation = input.recommendedOptionId && tried.size > 0
+      ? tried.has(input.recommendedOptionId)
+      : null;
+
+    const summary = {
+      followedRecommendation,
+      averageCostVariancePercent: this.average(latest.map(c => c.cost?.variancePercent ?? null)),
+      averageTimeVariancePercent: this.average(latest.map(c => c.time?.variancePercent ?? null)),
+      averageSuccessRating: this.average(latest.map(c => c.successRating)),
+      averageScoreGap: this.average(latest.map(c => c.scoreGap))
+    };
+
+    return {
+      outcomeCount: comparisons.length,
+      comparisons,
+      latest,
+      summary,
+      lessons: this.generateLessons(comparisons, latest, input, followedRecommendation)
+    };
+  }
+
+  private compare(outcome: Outcome, option: Option | undefined, input: RetrospectiveInput): OutcomeComparison {
+    const estimatedDays = option?.estimatedTime ? parseDurationToDays(option.estimatedTime) : null;
+    const actualDays = outcome.actualTime === undefined
+      ? null
+      : typeof outcome.actualTime === 'number' ? outcome.actualTime : parseDurationToDays(outcome.actualTime);
+    const predictedScore = input.predictedScores[outcome.optionId] ?? null;
+    const successRating = outcome.successRating ?? null;
+
+    return {
+      outcomeId: outcome.id,
+      optionId: outcome.optionId,
+      name: option?.name || outcome.optionId,
+      recommended: outcome.optionId === input.recommendedOptionId,
+      recordedAt: outcome.recordedAt,
+      cost: this.variance(option?.estimatedCost ?? null, outcome.actualCost ?? null),
+      time: this.variance(estimatedDays, actualDays),
+      successRating,
+      predictedScore,
+      scoreGap: successRating !== null && predictedScore !== null ? this.round(successRating - predictedScore) : null,
+      notes: outcome.notes || null
+    };
+  }
+
+  private variance(estimated: number | null, actual: number | null): Variance | null {
+    if (estimated === null || actual === null) {
+      return null;
+    }
+    return {
+      estimated,
+      actual,
+      variance: this.round(actual - estimated),
+      variancePercent: estimated > 0 ? this.round(((actual - estimated) / estimated) * 100) : null
+    };
+  }
+
+  private generateLessons(
+    comparisons: OutcomeComparison[],
+    latest: OutcomeComparison[],
+    input: RetrospectiveInput,
+    followedRecommendation: boolean | null
+  ): string[] {
+    const lessons: string[] = [];
+    if (comparisons.length === 0) {
+      lessons.push('No outcomes recorded yet - record actual cost, time and a success rating once results are known');
+      return lessons;
+    }
+
+    if (followedRecommendation === false) {
+      const recommended = input.options.find(o => o.id === input.recommendedOptionId);
+      lessons.push(`The team went with ${latest.map(c => c.name).join(', ')} rather than the recommended ${recommended?.name || 'option'}`);
+    }
+
+    latest.forEach(c => {
+      if (c.cost?.variancePercent != null && Math.abs(c.cost.variancePercent) > ESTIMATE_TOLERANCE * 100) {
+        lessons.push(`${c.name} cost ${c.cost.actual} against an estimate of ${c.cost.estimated} (${this.signed(c.cost.variancePercent)}%)`);
+      }
+      if (c.time?.variancePercent != null && Math.abs(c.time.variancePercent) > ESTIMATE_TOLERANCE * 100) {
+        lessons.push(`${c.name} took ${c.time.actual} days against an estimate of ${c.time.estimated} (${this.signed(c.time.variancePercent)}%)`);
+      }
+      if (c.scoreGap !== null && c.scoreGap <= -SIGNIFICANT_GAP) {
+        lessons.push(`${c.name} under-delivered: rated ${c.successRating}/10 against a predicted ${c.predictedScore}/10 - revisit the scores or weights that favoured it`);
+      } else if (c.scoreGap !== null && c.scoreGap >= SIGNIFICANT_GAP) {
+        lessons.push(`${c.name} exceeded expectations: rated ${c.successRating}/10 against a predicted ${c.predictedScore}/10`);
+      }
+    });
+
+    const variances = latest
+      .flatMap(c => [c.cost?.variancePercent, c.time?.variancePercent])
+      .filter((value): value is number => value !== null && value !== undefined);
+    if (variances.length > 1 && variances.every(value => value > ESTIMATE_TOLERANCE * 100)) {
+      lessons.push('Every cost and time estimate was optimistic - add contingency to future estimates');
+    }
+
+    const recommendedRating = latest.find(c => c.recommended)?.successRating;
+    if (input.confidence !== null && input.confidence >= 0.7 && recommendedRating != null && recommendedRating < 5) {
+      lessons.push(`The recommendation was made with confidence ${input.confidence} but rated ${recommendedRating}/10 - the analysis was overconfident`);
+    }
+
+    // Ratings recorded over time show whether results held up
+    const rated = comparisons.filter(c => c.successRating !== null);
+    const first = rated[0];
+    const last = rated[rated.length - 1];
+    if (rated.length > 1 && first.optionId === last.optionId && first.successRating !== last.successRating) {
+      lessons.push(`${last.name}'s success rating moved from ${first.successRating} to ${last.successRating} across ${rated.length} reviews`);
+    }
+
+    if (lessons.length === 0) {
+      lessons.push('Outcomes matched the estimates and predicted scores');
+    }
+    return lessons;
+  }
+
+  private average(values: (number | null)[]): number | null {
+    const present = values.filter((value): value is number => value !== null);
+    return present.length > 0 ? this.round(present.reduce((sum, value) => sum + value, 0) / present.length) : null;
+  }
+
+  private signed(value: number): string {
+    return value > 0 ? `+${value}` : `${value}`;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// Singleton instance
+export const retrospectiveService = new RetrospectiveService();
@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@jest/globals';
+import { scenarioAnalysisService } from './scenario-analysis.js';
+import type { Option, Scenario, ScenarioPayoff } from '../types/decision-types.js';
+
+const option = (id: string): Option => ({ id, name: id, description: '', pros: [], cons: [], risks: [] });
+
+const scenarios: Scenario[] = [
+  { id: 'boom', name: 'Boom' },
+  { id: 'bust', name: 'Bust' }
+];
+
+const payoffTable = (rows: Record<string, [number, number]>): ScenarioPayoff[] =>
+  Object.entries(rows).flatMap(([optionId, [boom, bust]]) => [
+    { optionId, scenarioId: 'boom', payoff: boom },
+    { optionId, scenarioId: 'bust', payoff: bust }
+  ]);
+
+const options = [option('safe'), option('risky'), option('mid')];
+const payoffs = payoffTable({ safe: [50, 40], risky: [100, 0], mid: [75, 30] });
+
+describe('ScenarioAnalysisService', () => {
+  describe('analyze', () => {
+    it('picks the option each decision rule prefers', () => {
+      const result = scenarioAnalysisService.analyze(options, scenarios, payoffs);
+      const best = Object.fromEntries(result.rules.map(r => [r.rule, r.bestOption?.optionId]));
+
+      expect(best).toEqual({ maximin: 'safe', maximax: 'risky', hurwicz: 'mid', laplace: 'mid', minimax_regret: 'mid' });
+      expect(result.robustOptions).toEqual([]);
+    });
+
+    it('measures regret against the best option in each scenario', () => {
+      const result = scenarioAnalysisService.analyze(options, scenarios, payoffs);
+      const regret = result.rules.find(r => r.rule === 'minimax_regret');
+
+      expect(result.regretTable).toEqual({
+        safe: { boom: 50, bust: 0 },
+        risky: { boom: 0, bust: 40 },
+        mid: { boom: 25, bust: 10 }
+      });
+      expect(regret?.rankings.map(r => [r.optionId, r.value])).toEqual([['mid', 25], ['risky', 40], ['safe', 50]]);
+      expect(result.insights).toContain('Choosing mid risks at most 25 of regret in any scenario');
+    });
+
+    it('weights best and worst outcomes by the Hurwicz optimism', () => {
+      const pessimist = scenarioAnalysisService.analyze(options, scenarios, payoffs, 0);
+      const optimist = scenarioAnalysisService.analyze(options, scenarios, payoffs, 1);
+
+      expect(pessimist.rules.find(r => r.rule === 'hurwicz')?.bestOption?.optionId).toBe('safe');
+      expect(optimist.rules.find(r => r.rule === 'hurwicz')?.bestOption?.optionId).toBe('risky');
+      expect(() => scenarioAnalysisService.analyze(options, scenarios, payoffs, 1.5)).toThrow('Optimism must be between 0 and 1');
+    });
+
+    it('reports an option preferred by every rule as robust', () => {
+      const result = scenarioAnalysisService.analyze(
+        [option('strong'), option('weak')],
+        scenarios,
+        payoffTable({ strong: [60, 50], weak: [40, 30] })
+      );
+
+      expect(result.robustOptions).toEqual(['strong']);
+      expect(result.insights[0]).toBe('strong is preferred under every risk attitude');
+    });
+
+    it('leaves out options missing a payoff for any scenario', () => {
+      const result = scenarioAnalysisService.analyze(
+        [...options, option('untested')],
+        scenarios,
+        [...payoffs, { optionId: 'untested', scenarioId: 'boom', payoff: 200 }]
+      );
+
+      expect(result.excludedOptions).toEqual([{ optionId: 'untested', name: 'untested', missingScenarios: ['Bust'] }]);
+      expect(result.rules.every(r => r.rankings.every(entry => entry.optionId !== 'untested'))).toBe(true);
+    });
+  });
+
+  describe('findOptimismSwitchPoints', () => {
+    it('finds where the Hurwicz choice changes as optimism grows', () => {
+      expect(scenarioAnalysisService.findOptimismSwitchPoints(options, scenarios, payoffs)).toEqual([
+        { optimism: 0.3, from: 'safe', to: 'mid' },
+        { optimism: 0.55, from: 'mid', to: 'risky' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import type { Option, Scenario, ScenarioPayoff } from '../types/decision-types.js';
+
+export type DecisionRule = 'maximin' | 'maximax' | 'hurwicz' | 'laplace' | 'minimax_regret';
+
+export const DECISION_RULE_LABELS: Record<DecisionRule, string> = {
+  maximin: 'Maximin (pessimist)',
+  maximax: 'Maximax (optimist)',
+  hurwicz: 'Hurwicz',
+  laplace: 'Laplace (equal likelihood)',
+  minimax_regret: 'Minimax regret'
+};
+
+export interface RuleRanking {
+  rank: number;
+  optionId: string;
+  name: string;
+  // Payoff-like value for every rule except minimax regret, where it is the maximum regret (lower is better)
+  value: number;
+}
+
+export interface RuleResult {
+  rule: DecisionRule;
+  label: string;
+  rankings: RuleRanking[];
+  bestOption: { optionId: string; name: string } | null;
+}
+
+export interface ScenarioAnalysisResult {
+  optimism: number;
+  scenarios: { id: string; name: string }[];
+  // regretTable[optionId][scenarioId]: shortfall against the best option in that scenario
+  regretTable: Record<string, Record<string, number>>;
+  rules: RuleResult[];
+  // Options recommended by every rule, empty when the rules disagree
+  robustOptions: string[];
+  excludedOptions: { optionId: string; name: string; missingScenarios: string[] }[];
+  insights: string[];
+}
+
+export class ScenarioAnalysisService {
+  /**
+   * Rank options under each classic rule for decisions without reliable scenario probabilities
+   */
+  analyze(options: Option[], scenarios: Scenario[], payoffs: ScenarioPayoff[], optimism: number = 0.5): ScenarioAnalysisResult {
+    if (optimism < 0 || optimism > 1) {
+      throw new Error('Optimism must be between 0 and 1');
+    }
+
+    const lookup = new Map(payoffs.map(p => [`${p.optionId}:${p.scenarioId}`, p.payoff]));
+    const excludedOptions: ScenarioAnalysisResult['excludedOptions'] = [];
+    const rows: { option: Option; values: number[] }[] = [];
+
+    // Rules compare whole payoff rows, so options missing a scenario cannot be ranked
+    options.forEach(option => {
+      const values = scenarios.map(scenario => lookup.get(`${option.id}:${scenario.id}`));
+      const missing = scenarios.filter((_, k) => values[k] === undefined).map(scenario => scenario.name);
+      if (missing.length > 0) {
+        excludedOptions.push({ optionId: option.id, name: option.name, missingScenarios: missing });
+      } else {
+        rows.push({ option, values: values as number[] });
+      }
+    });
+
+    const bestPerScenario = scenarios.map((_, k) => Math.max(...rows.map(row => row.values[k])));
+    const regrets = rows.map(row => row.values.map((value, k) => bestPerScenario[k] - value));
+
+    const regretTable: Record<string, Record<string, number>> = {};
+    rows.forEach((row, i) => {
+      regretTable[row.option.id] = {};
+      scenarios.forEach((scenario, k) => {
+        regretTable[row.option.id][scenario.id] = this.round(regrets[i][k]);
+      });
+    });
+
+    const ruleValues: Record<DecisionRule, number[]> = {
+      maximin: rows.map(row => Math.min(...row.values)),
+      maximax: rows.map(row => Math.max(...row.values)),
+      hurwicz: rows.map(row => optimism * Math.max(...row.values) + (1 - optimism) * Math.min(...row.values)),
+      laplace: rows.map(row => row.values.reduce((sum, value) => sum + value, 0) / row.values.length),
+      minimax_regret: regrets.map(row => Math.max(...row))
+    };
+
+    const rules: RuleResult[] = (Object.keys(ruleValues) as DecisionRule[]).map(rule => {
+      const lowerIsBetter = rule === 'minimax_regret';
+      const rankings = rows
+        .map((row, i) => ({ optionId: row.option.id, name: row.option.name, value: this.round(ruleValues[rule][i]) }))
+        .sort((a, b) => (lowerIsBetter ? a.value - b.value : b.value - a.value))
+        .map((entry, index) => ({ rank: index + 1, ...entry }));
+      return {
+        rule,
+        label: rule === 'hurwicz' ? `${DECISION_RULE_LABELS.hurwicz} (optimism ${optimism})` : DECISION_RULE_LABELS[rule],
+        rankings,
+        bestOption: rankings[0] ? { optionId: rankings[0].optionId, name: rankings[0].name } : null
+      };
+    });
+
+    const winners = new Set(rules.map(r => r.bestOption?.name).filter((name): name is string => Boolean(name)));
+    const robustOptions = winners.size === 1 ? Array.from(winners) : [];
+
+    return {
+      optimism,
+      scenarios: scenarios.map(scenario => ({ id: scenario.id, name: scenario.name })),
+      regretTable,
+      rules,
+      robustOptions,
+      excludedOptions,
+      insights: this.generateInsights(rules, robustOptions, excludedOptions, rows.map(row => row.option), regrets, optimism)
+    };
+  }
+
+  /**
+   * Hurwicz coefficient at which the preferred option changes, scanning optimism from 0 to 1
+   */
+  findOptimismSwitchPoints(options: Option[], scenarios: Scenario[], payoffs: ScenarioPayoff[]): { optimism: number; from: string; to: string }[] {
+    const switches: { optimism: number; from: string; to: string }[] = [];
+    let previous: string | null = null;
+    for (let step = 0; step <= 20; step++) {
+      const optimism = step / 20;
+      const hurwicz = this.analyze(options, scenarios, payoffs, optimism).rules.find(r => r.rule === 'hurwicz');
+      const best = hurwicz?.bestOption?.name || null;
+      if (previous !== null && best !== null && best !== previous) {
+        switches.push({ optimism, from: previous, to: best });
+      }
+      previous = best;
+    }
+    return switches;
+  }
+
+  private generateInsights(
+    rules: RuleResult[],
+    robustOptions: string[],
+    excludedOptions: ScenarioAnalysisResult['excludedOptions'],
+    ranked: Option[],
+    regrets: number[][],
+    optimism: number
+  ): string[] {
+    const insights: string[] = [];
+    const best = (rule: DecisionRule): string | undefined => rules.find(r => r.rule === rule)?.bestOption?.name;
+
+    if (ranked.length === 0) {
+      insights.push('No option has payoffs for every scenario');
+    } else if (robustOptions.length === 1) {
+      insights.push(`${robustOptions[0]} is preferred under every risk attitude`);
+    } else {
+      insights.push(`A cautious decision-maker (maximin) would pick ${best('maximin')}, an optimistic one (maximax) ${best('maximax')}`);
+      insights.push(`Minimax regret favours ${best('minimax_regret')}; treating scenarios as equally likely favours ${best('laplace')}`);
+      insights.push(`With optimism ${optimism}, Hurwicz favours ${best('hurwicz')}`);
+    }
+
+    const regretWinner = rules.find(r => r.rule === 'minimax_regret')?.rankings[0];
+    if (regretWinner && ranked.length > 1) {
+      const index = ranked.findIndex(option => option.id === regretWinner.optionId);
+      const worst = Math.max(...regrets[index]);
+      if (worst > 0) {
+        insights.push(`Choosing ${regretWinner.name} risks at most ${this.round(worst)} of regret in any scenario`);
+      }
+    }
+
+    excludedOptions.forEach(option => {
+      insights.push(`${option.name} was not ranked: no payoff for ${option.missingScenarios.join(', ')}`);
+    });
+
+    return insights;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
+
+// Singleton instance
+export const scenarioAnalysisService = new ScenarioAnalysisService();
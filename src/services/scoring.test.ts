@@ -0,0 +1,228 @@
+import { describe, expect, it } from '@jest/globals';
+import { scoringService, type ScoringInput } from './scoring.js';
+import type { Criteria, CriterionEvaluation, Option } from '../types/decision-types.js';
+
+const criterion = (fields: Partial<Criteria> & Pick<Criteria, 'id' | 'type' | 'weight'>): Criteria => ({
+  name: fields.id,
+  description: '',
+  ...fields
+});
+
+const option = (fields: Partial<Option> & Pick<Option, 'id'>): Option => ({
+  name: fields.id,
+  description: '',
+  pros: [],
+  cons: [],
+  risks: [],
+  ...fields
+});
+
+// Stored scores are on a 0-1 scale
+const evaluation = (optionId: string, criterionId: string, score: number): CriterionEvaluation => ({
+  id: `${optionId}:${criterionId}`,
+  optionId,
+  criterionId,
+  score,
+  rationale: ''
+});
+
+const input: ScoringInput = {
+  criteria: [
+    criterion({ id: 'speed', type: 'benefit', weight: 0.75 }),
+    criterion({ id: 'quality', type: 'benefit', weight: 0.25 })
+  ],
+  options: [option({ id: 'a' }), option({ id: 'b' })],
+  evaluations: [
+    evaluation('a', 'speed', 0.8),
+    evaluation('a', 'quality', 0.4),
+    evaluation('b', 'speed', 0.6),
+    evaluation('b', 'quality', 0.8)
+  ]
+};
+
+describe('ScoringService', () => {
+  describe('buildMatrix', () => {
+    const measured: ScoringInput = {
+      criteria: [
+        criterion({ id: 'cost', type: 'cost', weight: 0.5, measure: 'estimatedCost' }),
+        criterion({ id: 'quality', type: 'benefit', weight: 0.5 })
+      ],
+      options: [option({ id: 'a', estimatedCost: 100 }), option({ id: 'b', estimatedCost: 200 })],
+      evaluations: [evaluation('a', 'quality', 0.6), evaluation('b', 'quality', 0.8)]
+    };
+
+    it('normalises measured values so the cheaper option scores higher on a cost criterion', () => {
+      const { cells } = scoringService.buildMatrix(measured);
+
+      expect(cells[0][0]).toEqual({ value: 10, raw: 100, source: 'measurement' });
+      expect(cells[1][0]).toEqual({ value: 0, raw: 200, source: 'measurement' });
+      expect(cells[0][1]).toEqual({ value: 6, source: 'evaluation' });
+    });
+
+    it('inverts hand scores on risk criteria', () => {
+      const { cells } = scoringService.buildMatrix({
+        criteria: [criterion({ id: 'risk', type: 'risk', weight: 1 })],
+        options: [option({ id: 'a' })],
+        evaluations: [evaluation('a', 'risk', 0.2)]
+      });
+
+      expect(cells[0][0]?.value).toBe(8);
+    });
+
+    it('prefers a measurement over a hand score for the same pair', () => {
+      const { cells } = scoringService.buildMatrix({
+        ...measured,
+        evaluations: [...measured.evaluations, evaluation('b', 'cost', 0.1)]
+      });
+
+      expect(cells[1][0]?.source).toBe('measurement');
+    });
+
+    it('ranks the cheaper option first when cost outweighs the quality gap', () => {
+      const result = scoringService.scoreOptions(measured);
+
+      expect(result.rankings.map(r => [r.optionId, r.score])).toEqual([['a', 8], ['b', 4]]);
+    });
+  });
+
+  describe('getMeasuredValue', () => {
+    it('reads measurements by criterion id or name, then the measured option field', () => {
+      const speed = criterion({ id: 'speed-id', name: 'Speed', type: 'benefit', weight: 1 });
+      const time = criterion({ id: 'time', type: 'cost', weight: 1, measure: 'estimatedTime' });
+
+      expect(scoringService.getMeasuredValue(option({ id: 'a', measurements: { Speed: 3 } }), speed)).toBe(3);
+      expect(scoringService.getMeasuredValue(option({ id: 'a', measurements: { 'speed-id': 4 } }), speed)).toBe(4);
+      expect(scoringService.getMeasuredValue(option({ id: 'a', estimatedTime: '2 weeks' }), time)).toBe(14);
+      expect(scoringService.getMeasuredValue(option({ id: 'a' }), speed)).toBeNull();
+    });
+  });
+
+  describe('scoreOptions', () => {
+    it('ranks options by the weighted average of their scores on a 0-10 scale', () => {
+      const result = scoringService.scoreOptions(input);
+
+      expect(result.rankings.map(r => [r.optionId, r.score])).toEqual([['a', 7], ['b', 6.5]]);
+      expect(result.optionScores.a.criterionScores).toEqual({ speed: 8, quality: 4 });
+      expect(result.coverage).toBe(1);
+    });
+
+    it('lets the heavier criterion decide between options', () => {
+      const result = scoringService.scoreOptions({
+        ...input,
+        evaluations: [...input.evaluations, evaluation('b', 'speed', 0.2)]
+      });
+
+      expect(result.bestOption?.optionId).toBe('a');
+      expect(result.worstOption?.optionId).toBe('b');
+      expect(result.scoreRange).toEqual({ highest: 7, lowest: 3.5, average: 5.25 });
+    });
+
+    it('skips missing pairs and reports the coverage gap', () => {
+      const result = scoringService.scoreOptions({ ...input, evaluations: input.evaluations.slice(0, 3) });
+
+      expect(result.optionScores.b).toMatchObject({ score: 6, coverage: 0.5 });
+      expect(result.coverage).toBe(0.75);
+      expect(result.insights).toContain('Evaluations are incomplete (75% coverage) for: b');
+    });
+
+    it('uses the latest evaluation of a pair', () => {
+      const result = scoringService.scoreOptions({
+        ...input,
+        evaluations: [...input.evaluations, evaluation('a', 'quality', 0)]
+      });
+
+      expect(result.optionScores.a.criterionScores.quality).toBe(0);
+    });
+  });
+
+  describe('scoreOptions with other methods', () => {
+    it('agrees on a clear winner across every MCDA method', () => {
+      for (const method of ['weighted_product', 'topsis', 'ahp', 'promethee'] as const) {
+        const result = scoringService.scoreOptions(input, method);
+
+        expect(result.method).toBe(method);
+        expect(result.bestOption?.optionId).toBe('a');
+      }
+    });
+  });
+
+  describe('analyzeDominance', () => {
+    it('finds options beaten on every criterion', () => {
+      const result = scoringService.analyzeDominance({
+        ...input,
+        evaluations: [...input.evaluations, evaluation('b', 'quality', 0.2)]
+      });
+
+      expect(result.paretoOptimal.map(o => o.optionId)).toEqual(['a']);
+      expect(result.dominated).toEqual([
+        { optionId: 'b', name: 'b', dominatedBy: [{ optionId: 'a', name: 'a' }], strict: true }
+      ]);
+      expect(result.warnings).toEqual(['Option b is dominated by Option a on every criterion']);
+    });
+
+    it('treats a tie on one criterion as weak dominance', () => {
+      const result = scoringService.analyzeDominance({
+        ...input,
+        evaluations: [...input.evaluations, evaluation('b', 'quality', 0.4)]
+      });
+
+      expect(result.dominated[0]).toMatchObject({ optionId: 'b', strict: false });
+    });
+
+    it('keeps trade-offs Pareto-optimal and skips pairs with missing scores', () => {
+      const tradeOff = scoringService.analyzeDominance(input);
+      const incomplete = scoringService.analyzeDominance({ ...input, evaluations: input.evaluations.slice(0, 3) });
+
+      expect(tradeOff.paretoOptimal.map(o => o.optionId)).toEqual(['a', 'b']);
+      expect(tradeOff.dominated).toEqual([]);
+      expect(incomplete.incompletePairs).toBe(1);
+      expect(incomplete.warnings).toEqual(['1 option pair(s) could not be compared for dominance because of missing scores']);
+    });
+  });
+
+  describe('analyzeSensitivity', () => {
+    it('reports the weight change that makes another option the top one', () => {
+      const result = scoringService.analyzeSensitivity(input, 'weighted_sum', 0.5, 0.05);
+      const quality = result.criteria.find(c => c.criterionId === 'quality');
+
+      expect(result.topOption?.optionId).toBe('a');
+      expect(quality?.increaseToFlip).toBeCloseTo(0.1);
+      expect(quality?.flipsToOnIncrease).toBe('b');
+      expect(quality?.decreaseToFlip).toBeNull();
+      expect(result.stabilityScore).toBeLessThan(1);
+    });
+
+    it('is fully stable when the top option wins on every criterion', () => {
+      const result = scoringService.analyzeSensitivity({
+        ...input,
+        evaluations: [...input.evaluations, evaluation('b', 'quality', 0.2)]
+      });
+
+      expect(result.stabilityScore).toBe(1);
+      expect(result.criteria.every(c => c.criticalChange === null)).toBe(true);
+      expect(result.mostSensitiveCriterion).toBeNull();
+      expect(result.insights[0]).toBe('a stays on top for every weight change up to ±0.5');
+    });
+
+    it('starts from the AHP criterion weights when criteria judgements are given', () => {
+      const result = scoringService.analyzeSensitivity(input, 'ahp', 0.5, 0.05, { criteria: [[1, 1 / 3], [3, 1]] });
+
+      expect(result.criteria.map(c => c.baseWeight)).toEqual([0.25, 0.75]);
+      expect(result.topOption?.optionId).toBe('b');
+    });
+  });
+
+  describe('calculateConfidence', () => {
+    it('grows with the lead of the top option and shrinks with missing evaluations', () => {
+      const rankings = (lead: number) => [
+        { rank: 1, optionId: 'a', name: 'a', score: 5 + lead },
+        { rank: 2, optionId: 'b', name: 'b', score: 5 }
+      ];
+
+      expect(scoringService.calculateConfidence(rankings(0), 1)).toBe(0.5);
+      expect(scoringService.calculateConfidence(rankings(2), 1)).toBe(0.95);
+      expect(scoringService.calculateConfidence(rankings(2), 0.5)).toBe(0.48);
+      expect(scoringService.calculateConfidence([], 1)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,558 @@
+import type { Criteria, Option, CriterionEvaluation } from '../types/decision-types.js';
+import { calculateWeightedAverage, normalize, parseDurationToDays } from '../utils/analysis.js';
+import { valueFunctionService } from './value-functions.js';
+import { mcdaService, SCORING_METHOD_LABELS, type ScoringMethod, type PairwiseComparisons, type MethodScores } from './mcda.js';
+
+export interface ScoringInput {
+  criteria: Criteria[];
+  options: Option[];
+  evaluations: CriterionEvaluation[];
+}
+
+export interface MatrixCell {
+  // Desirability on a 0-10 scale where higher is always better
+  value: number;
+  raw?: number;
+  source: 'evaluation' | 'measurement';
+  autoGenerated?: boolean;
+}
+
+export interface DecisionMatrix {
+  criteria: Criteria[];
+  options: Option[];
+  // cells[optionIndex][criterionIndex]; null when the pair has no score
+  cells: (MatrixCell | null)[][];
+}
+
+export interface OptionScore {
+  optionId: string;
+  name: string;
+  score: number;
+  criterionScores: Record<string, number>;
+  coverage: number;
+}
+
+export interface OptionRanking {
+  rank: number;
+  optionId: string;
+  name: string;
+  score: number;
+}
+
+export interface ScoringResult {
+  method: ScoringMethod;
+  scoreScale: { min: number; max: number };
+  optionScores: Record<string, OptionScore>;
+  rankings: OptionRanking[];
+  bestOption: OptionRanking | null;
+  worstOption: OptionRanking | null;
+  scoreRange: { highest: number; lowest: number; average: number };
+  coverage: number;
+  autoGeneratedShare: number;
+  methodDetails: Record<string, unknown>;
+  insights: string[];
+}
+
+export interface CriterionSensitivity {
+  criterionId: string;
+  name: string;
+  baseWeight: number;
+  // Smallest absolute weight change that changes the top-ranked option, null if none within range
+  increaseToFlip: number | null;
+  decreaseToFlip: number | null;
+  flipsToOnIncrease: string | null;
+  flipsToOnDecrease: string | null;
+  criticalChange: number | null;
+}
+
+export interface SensitivityResult {
+  method: ScoringMethod;
+  range: number;
+  step: number;
+  topOption: { optionId: string; name: string } | null;
+  criteria: CriterionSensitivity[];
+  stabilityScore: number;
+  mostSensitiveCriterion: string | null;
+  insights: string[];
+}
+
+export interface DominanceRelation {
+  optionId: string;
+  name: string;
+  dominatedBy: { optionId: string; name: string }[];
+  // True when some dominating option is strictly better on every criterion
+  strict: boolean;
+}
+
+export interface DominanceResult {
+  paretoOptimal: { optionId: string; name: string }[];
+  dominated: DominanceRelation[];
+  // Pairs left uncompared because one of the options is missing a score
+  incompletePairs: number;
+  warnings: string[];
+}
+
+export class ScoringService {
+  /**
+   * Build the option x criterion matrix, orienting cost and risk criteria so higher is better
+   */
+  buildMatrix(input: ScoringInput): DecisionMatrix {
+    const cells: (MatrixCell | null)[][] = input.options.map(() => input.criteria.map(() => null));
+
+    input.criteria.forEach((criterion, j) => {
+      const minimise = this.isMinimised(criterion);
+      const rawValues = input.options.map(option => this.getMeasuredValue(option, criterion));
+      const measuredIndices = rawValues
+        .map((value, i) => (value === null ? -1 : i))
+        .filter(i => i >= 0);
+
+      if (criterion.valueFunction) {
+        // A value function scores each raw value on its own, independent of the other options
+        const fn = criterion.valueFunction;
+        measuredIndices.forEach(i => {
+          cells[i][j] = { value: valueFunctionService.apply(fn, rawValues[i] as number), raw: rawValues[i] as number, source: 'measurement' };
+        });
+      } else {
+        // Raw measurements are min-max normalised across the options that have them
+        const normalised = normalize(measuredIndices.map(i => rawValues[i] as number));
+        measuredIndices.forEach((i, k) => {
+          const utility = minimise ? 1 - normalised[k] : normalised[k];
+          cells[i][j] = { value: utility * 10, raw: rawValues[i] as number, source: 'measurement' };
+        });
+      }
+
+      input.options.forEach((option, i) => {
+        if (cells[i][j]) return;
+        const evaluation = this.findEvaluation(input.evaluations, option.id, criterion.id);
+        if (evaluation) {
+          // Stored scores are normalised to 0-1; hand scores on cost/risk criteria rate magnitude, so invert them
+          const value = evaluation.score * 10;
+          cells[i][j] = {
+            value: minimise ? 10 - value : value,
+            source: 'evaluation',
+            autoGenerated: evaluation.autoGenerated
+          };
+        }
+      });
+    });
+
+    return { criteria: input.criteria, options: input.options, cells };
+  }
+
+  /**
+   * Score and rank every option with the chosen MCDA method (weighted sum by default)
+   */
+  scoreOptions(input: ScoringInput, method: ScoringMethod = 'weighted_sum', comparisons?: PairwiseComparisons): ScoringResult {
+    const matrix = this.buildMatrix(input);
+    const weightedSum = this.weightedSum(matrix);
+    const methodScores = this.runMethod(matrix, method, weightedSum, comparisons);
+    const optionScores: Record<string, OptionScore> = {};
+    let evaluatedPairs = 0;
+
+    matrix.options.forEach((option, i) => {
+      const criterionScores: Record<string, number> = {};
+      matrix.criteria.forEach((criterion, j) => {
+        const cell = matrix.cells[i][j];
+        if (cell) {
+          criterionScores[criterion.id] = Math.round(cell.value * 100) / 100;
+        }
+      });
+
+      const evaluated = Object.keys(criterionScores).length;
+      evaluatedPairs += evaluated;
+      optionScores[option.id] = {
+        optionId: option.id,
+        name: option.name,
+        score: Math.round(methodScores.scores[i] * 10000) / 10000,
+        criterionScores,
+        coverage: matrix.criteria.length > 0 ? evaluated / matrix.criteria.length : 0
+      };
+    });
+
+    const rankings = this.rank(Object.values(optionScores));
+    const totalPairs = input.options.length * input.criteria.length;
+    const coverage = totalPairs > 0 ? evaluatedPairs / totalPairs : 0;
+    const autoGenerated = matrix.cells.reduce((count, row) => count + row.filter(cell => cell?.autoGenerated).length, 0);
+    const autoGeneratedShare = evaluatedPairs > 0 ? autoGenerated / evaluatedPairs : 0;
+    const insights = this.generateInsights(matrix, method, methodScores.scale, optionScores, rankings, coverage);
+    if (autoGenerated > 0) {
+      insights.push(`${Math.round(autoGeneratedShare * 100)}% of scores were auto-generated from option text - confidence is discounted accordingly`);
+    }
+
+    return {
+      method,
+      scoreScale: methodScores.scale,
+      optionScores,
+      rankings,
+      bestOption: rankings[0] || null,
+      worstOption: rankings.length > 1 ? rankings[rankings.length - 1] : null,
+      scoreRange: this.calculateScoreRange(rankings),
+      coverage,
+      autoGeneratedShare: Math.round(autoGeneratedShare * 100) / 100,
+      methodDetails: methodScores.details,
+      insights: [...insights, ...methodScores.warnings]
+    };
+  }
+
+  /**
+   * Raw method scores in session option order, without rankings or insights
+   */
+  calculateScores(input: ScoringInput, method: ScoringMethod = 'weighted_sum', comparisons?: PairwiseComparisons): number[] {
+    const matrix = this.buildMatrix(input);
+    return this.runMethod(matrix, method, this.weightedSum(matrix), comparisons).scores;
+  }
+
+  /**
+   * Derive recommendation confidence from the margin between the top two options
+   */
+  calculateConfidence(
+    rankings: OptionRanking[],
+    coverage: number,
+    scale: { min: number; max: number } = { min: 0, max: 10 },
+    autoGeneratedShare: number = 0
+  ): number {
+    // Heuristic scores count for half as much evidence as human ones
+    const evidence = coverage * (1 - 0.5 * autoGeneratedShare);
+
+    if (rankings.length === 0) {
+      return 0;
+    }
+
+    if (rankings.length === 1) {
+      return Math.round(0.5 * evidence * 100) / 100;
+    }
+
+    // A lead of 20% of the scale or more is treated as decisive
+    const margin = (rankings[0].score - rankings[1].score) / (scale.max - scale.min);
+    const confidence = (0.5 + 0.45 * Math.min(1, margin / 0.2)) * evidence;
+
+    return Math.round(confidence * 100) / 100;
+  }
+
+  /**
+   * Perturb each criterion weight and find where the top-ranked option flips
+   */
+  analyzeSensitivity(
+    input: ScoringInput,
+    method: ScoringMethod = 'weighted_sum',
+    range: number = 0.5,
+    step: number = 0.01,
+    comparisons?: PairwiseComparisons
+  ): SensitivityResult {
+    const matrix = this.buildMatrix(input);
+    // AHP criteria judgements set the starting weights; the perturbed weights then replace them
+    const { criteria: criteriaJudgements, ...optionJudgements } = comparisons || {};
+    const baseWeights = method === 'ahp' && criteriaJudgements
+      ? (mcdaService.ahp(matrix, comparisons).details.criterionWeights as { weight: number }[]).map(c => c.weight)
+      : matrix.criteria.map(c => c.weight);
+    const totalWeight = baseWeights.reduce((sum, weight) => sum + weight, 0);
+    const baseline = this.topOptionIndex(matrix, baseWeights, method, optionJudgements);
+    const topOption = baseline >= 0
+      ? { optionId: matrix.options[baseline].id, name: matrix.options[baseline].name }
+      : null;
+
+    let tested = 0;
+    let unchanged = 0;
+
+    const criteria: CriterionSensitivity[] = matrix.criteria.map((criterion, j) => {
+      const scan = (direction: 1 | -1): { change: number | null; flipsTo: string | null } => {
+        let found: { change: number | null; flipsTo: string | null } = { change: null, flipsTo: null };
+        for (let delta = step; delta <= range + 1e-9; delta += step) {
+          const weight = baseWeights[j] + direction * delta;
+          if (weight < 0 || weight > 1) break;
+
+          // Other weights are rescaled proportionally so the total weight stays constant
+          const othersTotal = totalWeight - baseWeights[j];
+          const weights = baseWeights.map((w, k) => {
+            if (k === j) return weight;
+            return othersTotal > 0 ? w * Math.max(0, totalWeight - weight) / othersTotal : 0;
+          });
+
+          const top = this.topOptionIndex(matrix, weights, method, optionJudgements);
+          tested++;
+          if (top === baseline) {
+            unchanged++;
+          } else if (found.change === null) {
+            found = { change: Math.round(delta * 1000) / 1000, flipsTo: matrix.options[top]?.name || null };
+          }
+        }
+        return found;
+      };
+
+      const increase = scan(1);
+      const decrease = scan(-1);
+      const changes = [increase.change, decrease.change].filter((c): c is number => c !== null);
+
+      return {
+        criterionId: criterion.id,
+        name: criterion.name,
+        baseWeight: baseWeights[j],
+        increaseToFlip: increase.change,
+        decreaseToFlip: decrease.change,
+        flipsToOnIncrease: increase.flipsTo,
+        flipsToOnDecrease: decrease.flipsTo,
+        criticalChange: changes.length > 0 ? Math.min(...changes) : null
+      };
+    });
+
+    const stabilityScore = tested > 0 ? Math.round((unchanged / tested) * 100) / 100 : 1;
+    const sensitive = criteria
+      .filter(c => c.criticalChange !== null)
+      .sort((a, b) => (a.criticalChange as number) - (b.criticalChange as number));
+
+    const insights: string[] = [];
+    if (topOption) {
+      if (sensitive.length === 0) {
+        insights.push(`${topOption.name} stays on top for every weight change up to ±${range}`);
+      } else {
+        const critical = sensitive[0];
+        const direction = critical.criticalChange === critical.increaseToFlip ? 'increasing' : 'decreasing';
+        const flipsTo = direction === 'increasing' ? critical.flipsToOnIncrease : critical.flipsToOnDecrease;
+        insights.push(`${direction === 'increasing' ? 'Increasing' : 'Decreasing'} the weight of ${critical.name} by ${critical.criticalChange} makes ${flipsTo} the top option`);
+      }
+      insights.push(`Recommendation stability: ${Math.round(stabilityScore * 100)}% of tested weightings keep ${topOption.name} on top`);
+    }
+
+    return {
+      method,
+      range,
+      step,
+      topOption,
+      criteria,
+      stabilityScore,
+      mostSensitiveCriterion: sensitive[0]?.name || null,
+      insights
+    };
+  }
+
+  /**
+   * Find Pareto-optimal options and those dominated by another option, regardless of weights
+   */
+  analyzeDominance(input: ScoringInput): DominanceResult {
+    const matrix = this.buildMatrix(input);
+    const n = matrix.options.length;
+    const dominatedBy: number[][] = matrix.options.map(() => []);
+    // Dominated option index -> an option that beats it on every criterion
+    const strictDominator = new Map<number, number>();
+    let incompletePairs = 0;
+
+    for (let a = 0; a < n; a++) {
+      for (let b = a + 1; b < n; b++) {
+        // Dominance is only claimed when both options are scored on every criterion
+        const pairs = matrix.criteria.map((_, j) => [matrix.cells[a][j], matrix.cells[b][j]]);
+        if (matrix.criteria.length === 0 || pairs.some(([x, y]) => !x || !y)) {
+          incompletePairs++;
+          continue;
+        }
+
+        const differences = pairs.map(([x, y]) => (x as MatrixCell).value - (y as MatrixCell).value);
+        if (differences.every(d => d >= 0) && differences.some(d => d > 0)) {
+          dominatedBy[b].push(a);
+          if (differences.every(d => d > 0)) strictDominator.set(b, a);
+        } else if (differences.every(d => d <= 0) && differences.some(d => d < 0)) {
+          dominatedBy[a].push(b);
+          if (differences.every(d => d < 0)) strictDominator.set(a, b);
+        }
+      }
+    }
+
+    const reference = (i: number): { optionId: string; name: string } => ({ optionId: matrix.options[i].id, name: matrix.options[i].name });
+    const dominated: DominanceRelation[] = [];
+    const warnings: string[] = [];
+
+    dominatedBy.forEach((dominators, i) => {
+      if (dominators.length === 0) return;
+      dominated.push({
+        optionId: matrix.options[i].id,
+        name: matrix.options[i].name,
+        dominatedBy: dominators.map(reference),
+        strict: strictDominator.has(i)
+      });
+      const strict = strictDominator.get(i);
+      warnings.push(strict !== undefined
+        ? `Option ${matrix.options[i].name} is dominated by Option ${matrix.options[strict].name} on every criterion`
+        : `Option ${matrix.options[i].name} is dominated by Option ${matrix.options[dominators[0]].name}: no worse on every criterion and better on at least one`);
+    });
+
+    if (incompletePairs > 0) {
+      warnings.push(`${incompletePairs} option pair(s) could not be compared for dominance because of missing scores`);
+    }
+
+    return {
+      paretoOptimal: matrix.options.map((_, i) => i).filter(i => dominatedBy[i].length === 0).map(reference),
+      dominated,
+      incompletePairs,
+      warnings
+    };
+  }
+
+  private topOptionIndex(matrix: DecisionMatrix, weights: number[], method: ScoringMethod, comparisons?: PairwiseComparisons): number {
+    const weighted = { ...matrix, criteria: matrix.criteria.map((c, j) => ({ ...c, weight: weights[j] })) };
+    const { scores } = this.runMethod(weighted, method, this.weightedSum(weighted), comparisons);
+    return scores.reduce((best, score, i) => (best < 0 || score > scores[best] ? i : best), -1);
+  }
+
+  private runMethod(
+    matrix: DecisionMatrix,
+    method: ScoringMethod,
+    weightedSum: MethodScores,
+    comparisons?: PairwiseComparisons
+  ): MethodScores {
+    switch (method) {
+      case 'weighted_sum':
+        return weightedSum;
+      case 'weighted_product':
+        return mcdaService.weightedProduct(matrix);
+      case 'topsis':
+        return mcdaService.topsis(matrix);
+      case 'ahp':
+        return mcdaService.ahp(matrix, comparisons);
+      case 'promethee':
+        return mcdaService.promethee(matrix);
+      default:
+        throw new Error(`Unknown scoring method: ${method}`);
+    }
+  }
+
+  /**
+   * Weighted average over the criteria each option was scored on; missing pairs are skipped
+   */
+  private weightedSum(matrix: DecisionMatrix): MethodScores {
+    const scores = matrix.cells.map(row => {
+      const values: number[] = [];
+      const weights: number[] = [];
+      row.forEach((cell, j) => {
+        if (cell) {
+          values.push(cell.value);
+          weights.push(matrix.criteria[j].weight);
+        }
+      });
+      return calculateWeightedAverage(values, weights);
+    });
+
+    return { scores, scale: { min: 0, max: 10 }, details: {}, warnings: [] };
+  }
+
+  private rank(scores: OptionScore[]): OptionRanking[] {
+    return [...scores]
+      .sort((a, b) => b.score - a.score)
+      .map((optionScore, index) => ({
+        rank: index + 1,
+        optionId: optionScore.optionId,
+        name: optionScore.name,
+        score: optionScore.score
+      }));
+  }
+
+  private calculateScoreRange(rankings: OptionRanking[]): { highest: number; lowest: number; average: number } {
+    if (rankings.length === 0) {
+      return { highest: 0, lowest: 0, average: 0 };
+    }
+
+    const scores = rankings.map(r => r.score);
+    const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+
+    return {
+      highest: Math.max(...scores),
+      lowest: Math.min(...scores),
+      average: Math.round(average * 100) / 100
+    };
+  }
+
+  private generateInsights(
+    matrix: DecisionMatrix,
+    method: ScoringMethod,
+    scale: { min: number; max: number },
+    optionScores: Record<string, OptionScore>,
+    rankings: OptionRanking[],
+    coverage: number
+  ): string[] {
+    const insights: string[] = [];
+
+    if (rankings.length === 0) {
+      return ['No options available to score'];
+    }
+
+    const best = rankings[0];
+    insights.push(`${best.name} ranks first under ${SCORING_METHOD_LABELS[method]} with a score of ${best.score} (range ${scale.min} to ${scale.max})`);
+
+    if (rankings.length > 1) {
+      const margin = Math.round((best.score - rankings[1].score) * 10000) / 10000;
+      if (margin < 0.05 * (scale.max - scale.min)) {
+        insights.push(`${best.name} leads ${rankings[1].name} by only ${margin} points - the choice is close`);
+      } else {
+        insights.push(`${best.name} leads ${rankings[1].name} by ${margin} points`);
+      }
+    }
+
+    // Criterion with the largest weighted contribution to the winner
+    const bestScores = optionScores[best.optionId].criterionScores;
+    const strongest = matrix.criteria
+      .filter(c => bestScores[c.id] !== undefined)
+      .sort((a, b) => bestScores[b.id] * b.weight - bestScores[a.id] * a.weight)[0];
+    if (strongest) {
+      insights.push(`${strongest.name} contributes most to ${best.name}'s score`);
+    }
+
+    const measured = matrix.criteria.filter((_, j) => matrix.cells.some(row => row[j]?.source === 'measurement'));
+    const curved = measured.filter(c => c.valueFunction);
+    const normalised = measured.filter(c => !c.valueFunction);
+    if (normalised.length > 0) {
+      insights.push(`Scores for ${normalised.map(c => c.name).join(', ')} were normalised from measured values`);
+    }
+    if (curved.length > 0) {
+      insights.push(`Scores for ${curved.map(c => c.name).join(', ')} were mapped from measured values through their value functions`);
+    }
+
+    if (coverage < 1) {
+      const missing = Object.values(optionScores)
+        .filter(s => s.coverage < 1)
+        .map(s => s.name);
+      insights.push(`Evaluations are incomplete (${Math.round(coverage * 100)}% coverage) for: ${missing.join(', ')}`);
+    }
+
+    return insights;
+  }
+
+  /**
+   * Cost and risk criteria are minimised; benefit and feasibility are maximised
+   */
+  isMinimised(criterion: Criteria): boolean {
+    return criterion.type === 'cost' || criterion.type === 'risk';
+  }
+
+  /**
+   * Raw measured value of an option on a criterion, or null when the pair is scored by evaluation
+   */
+  getMeasuredValue(option: Option, criterion: Criteria): number | null {
+    const measurements = option.measurements || {};
+    if (measurements[criterion.id] !== undefined) {
+      return measurements[criterion.id];
+    }
+    if (measurements[criterion.name] !== undefined) {
+      return measurements[criterion.name];
+    }
+
+    if (criterion.measure === 'estimatedCost' && typeof option.estimatedCost === 'number') {
+      return option.estimatedCost;
+    }
+    if (criterion.measure === 'estimatedTime' && option.estimatedTime) {
+      return parseDurationToDays(option.estimatedTime);
+    }
+
+    return null;
+  }
+
+  private findEvaluation(evaluations: CriterionEvaluation[], optionId: string, criterionId: string): CriterionEvaluation | undefined {
+    // Later evaluations take precedence over earlier ones
+    for (let i = evaluations.length - 1; i >= 0; i--) {
+      if (evaluations[i].optionId === optionId && evaluations[i].criterionId === criterionId) {
+        return evaluations[i];
+      }
+    }
+    return undefined;
+  }
+}
+
+// Singleton instance
+export const scoringService = new ScoringService();
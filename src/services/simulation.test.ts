@@ -0,0 +1,89 @@
+import { describe, expect, it } from '@jest/globals';
+import { simulationService } from './simulation.js';
+import type { ScoringInput } from './scoring.js';
+
+const input: ScoringInput = {
+  criteria: [{ id: 'speed', name: 'Speed', description: '', type: 'benefit', weight: 1 }],
+  options: [
+    { id: 'a', name: 'A', description: '', pros: [], cons: [], risks: [] },
+    { id: 'b', name: 'B', description: '', pros: [], cons: [], risks: [] }
+  ],
+  evaluations: [
+    {
+      id: 'a:speed',
+      optionId: 'a',
+      criterionId: 'speed',
+      score: 0.6,
+      distribution: { type: 'triangular', min: 3, mostLikely: 6, max: 9 },
+      rationale: ''
+    },
+    {
+      id: 'b:speed',
+      optionId: 'b',
+      criterionId: 'speed',
+      score: 0.5,
+      distribution: { type: 'normal', mean: 5, stddev: 1 },
+      rationale: ''
+    }
+  ]
+};
+
+describe('SimulationService', () => {
+  describe('runMonteCarlo', () => {
+    it('reproduces the same result for the same seed', () => {
+      const first = simulationService.runMonteCarlo(input, { iterations: 500, seed: 42 });
+      const second = simulationService.runMonteCarlo(input, { iterations: 500, seed: 42 });
+      const other = simulationService.runMonteCarlo(input, { iterations: 500, seed: 7 });
+
+      expect(second).toEqual(first);
+      expect(other.options[0].probabilityBest).not.toBe(first.options[0].probabilityBest);
+    });
+
+    it('lets the option with the higher expected score win most often', () => {
+      const result = simulationService.runMonteCarlo(input, { iterations: 2000, seed: 1 });
+
+      expect(result.uncertainScores).toBe(2);
+      expect(result.options[0].optionId).toBe('a');
+      expect(result.options[0].probabilityBest).toBeGreaterThan(0.5);
+      expect(result.options[0].probabilityBest).toBeLessThan(1);
+      expect(result.options[0].probabilityBest + result.options[1].probabilityBest).toBeCloseTo(1);
+    });
+
+    it('is deterministic when no score has a distribution', () => {
+      const result = simulationService.runMonteCarlo(
+        { ...input, evaluations: input.evaluations.map(e => ({ ...e, distribution: undefined })) },
+        { iterations: 100, seed: 3 }
+      );
+
+      expect(result.options.map(o => [o.optionId, o.probabilityBest, o.expectedScore])).toEqual([['a', 1, 6], ['b', 0, 5]]);
+      expect(result.insights[0]).toBe('No scores have distributions - results are deterministic');
+    });
+
+    it('runs at least one whole iteration', () => {
+      expect(simulationService.runMonteCarlo(input, { iterations: 10, seed: 1 }).iterations).toBe(10);
+      expect(simulationService.runMonteCarlo(input, { iterations: 0.5, seed: 1 }).iterations).toBe(1);
+    });
+  });
+
+  describe('sample', () => {
+    it('keeps triangular draws within their bounds and normal draws on the score scale', () => {
+      const random = simulationService.createRandom(5);
+      for (let i = 0; i < 200; i++) {
+        const triangular = simulationService.sample({ type: 'triangular', min: 2, mostLikely: 3, max: 8 }, random);
+        const normal = simulationService.sample({ type: 'normal', mean: 9, stddev: 3 }, random);
+
+        expect(triangular).toBeGreaterThanOrEqual(2);
+        expect(triangular).toBeLessThanOrEqual(8);
+        expect(normal).toBeGreaterThanOrEqual(0);
+        expect(normal).toBeLessThanOrEqual(10);
+      }
+    });
+  });
+
+  describe('expectedValue', () => {
+    it('uses the triangular mean and the normal mean', () => {
+      expect(simulationService.expectedValue({ type: 'triangular', min: 3, mostLikely: 6, max: 9 })).toBe(6);
+      expect(simulationService.expectedValue({ type: 'normal', mean: 4, stddev: 2 })).toBe(4);
+    });
+  });
+});
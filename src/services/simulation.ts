@@ -0,0 +1,166 @@
+import type { CriterionEvaluation, ScoreDistribution } from '../types/decision-types.js';
+import { scoringService, type ScoringInput } from './scoring.js';
+import type { ScoringMethod, PairwiseComparisons } from './mcda.js';
+import { calculateConfidenceInterval, calculatePercentile } from '../utils/analysis.js';
+
+export interface MonteCarloOptions {
+  iterations?: number;
+  seed?: number;
+  confidence?: number;
+  method?: ScoringMethod;
+  // AHP judgements; sampling varies the scores but not these
+  comparisons?: PairwiseComparisons;
+}
+
+export interface OptionSimulation {
+  optionId: string;
+  name: string;
+  probabilityBest: number;
+  expectedScore: number;
+  confidenceInterval: { lower: number; upper: number; mean: number };
+  percentiles: { p5: number; p50: number; p95: number };
+}
+
+export interface MonteCarloResult {
+  method: ScoringMethod;
+  iterations: number;
+  seed: number;
+  confidence: number;
+  uncertainScores: number;
+  options: OptionSimulation[];
+  insights: string[];
+}
+
+const MAX_ITERATIONS = 10000;
+
+export class SimulationService {
+  /**
+   * Sample uncertain scores and report how often each option ranks first
+   */
+  runMonteCarlo(input: ScoringInput, options: MonteCarloOptions = {}): MonteCarloResult {
+    const iterations = Math.min(Math.max(Math.floor(options.iterations || 1000), 1), MAX_ITERATIONS);
+    const seed = options.seed ?? Date.now();
+    const confidence = options.confidence || 0.95;
+    const method = options.method || 'weighted_sum';
+    const random = this.createRandom(seed);
+
+    const uncertainScores = input.evaluations.filter(e => e.distribution).length;
+    const samples: number[][] = input.options.map(() => []);
+    const wins: number[] = new Array(input.options.length).fill(0);
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      const evaluations: CriterionEvaluation[] = input.evaluations.map(evaluation =>
+        evaluation.distribution
+          ? { ...evaluation, score: this.sample(evaluation.distribution, random) / 10 }
+          : evaluation
+      );
+
+      const scores = scoringService.calculateScores({ ...input, evaluations }, method, options.comparisons);
+      scores.forEach((score, i) => samples[i].push(score));
+
+      const best = scores.reduce((top, score, i) => (top < 0 || score > scores[top] ? i : top), -1);
+      if (best >= 0) wins[best]++;
+    }
+
+    const results: OptionSimulation[] = input.options.map((option, i) => {
+      const interval = calculateConfidenceInterval(samples[i], confidence);
+      return {
+        optionId: option.id,
+        name: option.name,
+        probabilityBest: this.round(wins[i] / iterations),
+        expectedScore: this.round(interval.mean),
+        confidenceInterval: {
+          lower: this.round(interval.lower),
+          upper: this.round(interval.upper),
+          mean: this.round(interval.mean)
+        },
+        percentiles: {
+          p5: this.round(calculatePercentile(samples[i], 5)),
+          p50: this.round(calculatePercentile(samples[i], 50)),
+          p95: this.round(calculatePercentile(samples[i], 95))
+        }
+      };
+    }).sort((a, b) => b.probabilityBest - a.probabilityBest || b.expectedScore - a.expectedScore);
+
+    return {
+      method,
+      iterations,
+      seed,
+      confidence,
+      uncertainScores,
+      options: results,
+      insights: this.generateInsights(results, uncertainScores)
+    };
+  }
+
+  /**
+   * Draw a 0-10 score from a triangular or normal distribution
+   */
+  sample(distribution: ScoreDistribution, random: () => number): number {
+    if (distribution.type === 'triangular') {
+      const { min, mostLikely, max } = distribution;
+      if (max === min) return min;
+
+      // Inverse CDF of the triangular distribution
+      const u = random();
+      const split = (mostLikely - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mostLikely - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mostLikely));
+    }
+
+    // Box-Muller transform, clamped to the score scale
+    const u1 = Math.max(random(), Number.EPSILON);
+    const u2 = random();
+    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    return Math.min(10, Math.max(0, distribution.mean + z * distribution.stddev));
+  }
+
+  /**
+   * Expected value of a distribution, used as its point score
+   */
+  expectedValue(distribution: ScoreDistribution): number {
+    return distribution.type === 'triangular'
+      ? (distribution.min + distribution.mostLikely + distribution.max) / 3
+      : distribution.mean;
+  }
+
+  /**
+   * Seeded PRNG (mulberry32) so simulations are reproducible
+   */
+  createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  private generateInsights(results: OptionSimulation[], uncertainScores: number): string[] {
+    const insights: string[] = [];
+
+    if (uncertainScores === 0) {
+      insights.push('No scores have distributions - results are deterministic');
+    }
+
+    const [first, second] = results;
+    if (first) {
+      insights.push(`${first.name} ranks first in ${Math.round(first.probabilityBest * 100)}% of simulations`);
+    }
+    if (first && second && second.probabilityBest >= 0.25) {
+      insights.push(`${second.name} ranks first in ${Math.round(second.probabilityBest * 100)}% of simulations - the recommendation is sensitive to score uncertainty`);
+    }
+
+    return insights;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
+
+// Singleton instance
+export const simulationService = new SimulationService();
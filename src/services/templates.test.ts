@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TemplateService, templateService } from './templates.js';
+
+const template = (id: string, name: string, fields: Record<string, unknown> = {}) => JSON.stringify({
+  id,
+  name,
+  description: '',
+  criteria: [{ name: 'Fit', description: '', weight: 1, type: 'benefit' }],
+  ...fields
+});
+
+describe('TemplateService', () => {
+  describe('built-in templates', () => {
+    it('loads every shipped template without errors', () => {
+      const { templates, errors } = templateService.listTemplates();
+
+      expect(errors).toEqual([]);
+      expect(templates.filter(t => t.source === 'built_in').map(t => t.id).sort())
+        .toEqual(['build-vs-buy', 'database-choice', 'hiring', 'vendor-selection']);
+    });
+
+    it('looks up a template by ID', () => {
+      expect(templateService.getTemplate('hiring')?.criteria.map(c => c.name)).toContain('Compensation');
+      expect(templateService.getTemplate('missing')).toBeNull();
+    });
+  });
+
+  describe('user templates', () => {
+    let builtInDir: string;
+    let userDir: string;
+
+    beforeEach(() => {
+      builtInDir = mkdtempSync(join(tmpdir(), 'templates-built-in-'));
+      userDir = mkdtempSync(join(tmpdir(), 'templates-user-'));
+      writeFileSync(join(builtInDir, 'hiring.json'), template('hiring', 'Hiring'));
+    });
+
+    afterEach(() => {
+      rmSync(builtInDir, { recursive: true, force: true });
+      rmSync(userDir, { recursive: true, force: true });
+    });
+
+    it('override a built-in template with the same ID', () => {
+      writeFileSync(join(userDir, 'hiring.json'), template('hiring', 'Our hiring'));
+      writeFileSync(join(userDir, 'office.json'), template('office', 'Office move'));
+
+      const { templates } = new TemplateService(builtInDir, userDir).listTemplates();
+
+      expect(templates.map(t => [t.id, t.name, t.source])).toEqual([
+        ['office', 'Office move', 'user'],
+        ['hiring', 'Our hiring', 'user']
+      ]);
+    });
+
+    it('are reported by file when they fail validation', () => {
+      writeFileSync(join(userDir, 'broken.json'), '{ not json');
+      writeFileSync(join(userDir, 'no-criteria.json'), template('empty', 'Empty', { criteria: 'none' }));
+      writeFileSync(join(userDir, 'bad-constraint.json'), template('slow', 'Slow', {
+        constraintSuggestions: [{ description: 'Soon', type: 'max_time', value: 'whenever' }]
+      }));
+
+      const { templates, errors } = new TemplateService(builtInDir, userDir).listTemplates();
+
+      expect(templates.map(t => t.id)).toEqual(['hiring']);
+      expect(errors.map(e => e.file).sort()).toEqual(['bad-constraint.json', 'broken.json', 'no-criteria.json']);
+      expect(errors.find(e => e.file === 'no-criteria.json')?.error).toContain('criteria Expected array');
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { constraintService } from './constraints.js';
+import { valueFunctionService } from './value-functions.js';
+import { DecisionTemplateSchema, type DecisionTemplate } from '../types/decision-types.js';
+
+export type TemplateSource = 'built_in' | 'user';
+
+export interface LoadedTemplate extends DecisionTemplate {
+  source: TemplateSource;
+}
+
+export interface TemplateLoadError {
+  file: string;
+  error: string;
+}
+
+// Shipped with the package next to locales/; resolves from both src/services and dist/services
+const BUILT_IN_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', '..', 'templates');
+
+export class TemplateService {
+  constructor(
+    private builtInDir: string = BUILT_IN_DIR,
+    private userDir: string = process.env.DECISION_MCP_TEMPLATES_DIR || join(process.cwd(), '.decision-mcp', 'templates')
+  ) {}
+
+  /**
+   * Every valid template, with user-defined templates overriding built-ins of the same ID
+   */
+  listTemplates(): { templates: LoadedTemplate[]; errors: TemplateLoadError[] } {
+    // Read on every call so templates added to the user directory are picked up without a restart
+    const builtIn = this.loadDirectory(this.builtInDir, 'built_in');
+    const user = this.loadDirectory(this.userDir, 'user');
+
+    const byId = new Map<string, LoadedTemplate>();
+    [...builtIn.templates, ...user.templates].forEach(template => byId.set(template.id, template));
+
+    return {
+      templates: Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name)),
+      errors: [...builtIn.errors, ...user.errors]
+    };
+  }
+
+  /**
+   * Look up one template by ID
+   */
+  getTemplate(templateId: string): LoadedTemplate | null {
+    return this.listTemplates().templates.find(template => template.id === templateId) || null;
+  }
+
+  private loadDirectory(directory: string, source: TemplateSource): { templates: LoadedTemplate[]; errors: TemplateLoadError[] } {
+    const templates: LoadedTemplate[] = [];
+    const errors: TemplateLoadError[] = [];
+    if (!existsSync(directory)) {
+      return { templates, errors };
+    }
+
+    readdirSync(directory)
+      .filter(file => file.endsWith('.json'))
+      .forEach(file => {
+        // One broken file should not hide the other templates
+        try {
+          const parsed = DecisionTemplateSchema.safeParse(JSON.parse(readFileSync(join(directory, file), 'utf-8')));
+          if (parsed.success) {
+            // Suggestions must be addable as they stand, e.g. durations that parse
+            parsed.data.constraintSuggestions.forEach(constraint => constraintService.validateConstraint(constraint));
+            parsed.data.criteria.forEach(criterion => criterion.valueFunction && valueFunctionService.validate(criterion.valueFunction));
+            templates.push({ ...parsed.data, source });
+          } else {
+            errors.push({ file, error: parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join('; ') });
+          }
+        } catch (error) {
+          errors.push({ file, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      });
+
+    return { templates, errors };
+  }
+}
+
+// Singleton instance
+export const templateService = new TemplateService();
@@ -0,0 +1,92 @@
+import { describe, expect, it } from '@jest/globals';
+import { thinkingProgressService, type ProgressInput } from './thinking-progress.js';
+
+// Thoughts form a single chain unless a depth is given
+const input = (contents: string[], overrides: Partial<ProgressInput> = {}): ProgressInput => ({
+  problem: 'Why is checkout slow?',
+  maxThoughts: 50,
+  thoughts: contents.map((content, i) => ({ id: `t${i + 1}`, content, depth: i })),
+  branches: [],
+  ...overrides
+});
+
+const covered = [
+  'Checkout is slow since the payment deploy',
+  'Payment client retries each request three times',
+  'Lower the retry count to fix slow checkout'
+];
+
+describe('ThinkingProgressService', () => {
+  describe('analyze', () => {
+    it('is ready to conclude once the problem is covered and nothing is open', () => {
+      const metrics = thinkingProgressService.analyze(input(covered), 0);
+
+      expect(metrics.verdict).toBe('ready_to_conclude');
+      expect(metrics.keywordDrift).toEqual({ problemKeywords: ['checkout', 'slow'], unaddressedKeywords: [], drift: 0 });
+      expect(metrics.nextSteps).toEqual(['Conclude: the problem is covered and no questions, hypotheses or counterarguments are open']);
+    });
+
+    it('keeps thinking while the argument has open ends', () => {
+      expect(thinkingProgressService.analyze(input(covered), 1).verdict).toBe('keep_thinking');
+    });
+
+    it('asks for a change of approach when thoughts restate earlier ones', () => {
+      const metrics = thinkingProgressService.analyze(input(['Checkout is slow', 'Checkout is slow']), 0);
+
+      expect(metrics.verdict).toBe('change_approach');
+      expect(metrics.repetition).toEqual({ rate: 0.5, repeated: [{ thoughtId: 't2', similarTo: 't1', similarity: 1 }] });
+      expect(metrics.nextSteps).toContain('Build on earlier thoughts instead of restating them');
+    });
+
+    it('detects stagnation when the latest thoughts add no new key phrases', () => {
+      const metrics = thinkingProgressService.analyze(input([
+        'Payment client retries make checkout slow',
+        'Payment client retries',
+        'Retries make checkout slow',
+        'Client retries make checkout'
+      ]), 0);
+
+      expect(metrics.stagnation).toEqual({ stagnating: true, window: 3, newPhrasesInWindow: [] });
+      expect(metrics.verdict).toBe('change_approach');
+      expect(metrics.nextSteps[0]).toBe('Branch from "Client retries make checkout" to try a different angle, or conclude with what you have');
+    });
+
+    it('detects drift away from the problem', () => {
+      const metrics = thinkingProgressService.analyze(input([
+        'Hiring plan for Q3',
+        'Budget review next month',
+        'Office move to Berlin',
+        'Team offsite agenda',
+        'Laptop refresh cycle'
+      ]), 0);
+
+      expect(metrics.keywordDrift.drift).toBe(1);
+      expect(metrics.verdict).toBe('change_approach');
+      expect(metrics.nextSteps).toEqual(['Return to the problem: checkout, slow', 'Not yet addressed: checkout, slow']);
+    });
+
+    it('measures the thought tree and leaves abandoned branches out of headway', () => {
+      const metrics = thinkingProgressService.analyze(input([], {
+        thoughts: [
+          { id: 'root', content: 'Checkout is slow', depth: 0 },
+          { id: 'db', content: 'An index was dropped', depth: 1, branchId: 'b1' },
+          { id: 'cdn', content: 'Checkout is slow', depth: 1, branchId: 'b2' },
+          { id: 'fix', content: 'Restore the index', depth: 2, branchId: 'b1', stale: {} }
+        ],
+        branches: [{ id: 'b1', description: 'Database', status: 'exploring' }, { id: 'b2', description: 'CDN', status: 'abandoned' }]
+      }), 0);
+
+      expect(metrics.structure).toMatchObject({ treeDepth: 3, breadth: 2, averageDepth: 1, activeBranches: 1, staleThoughts: 1 });
+      expect(metrics.structure.thoughtsPerBranch.map(b => [b.description, b.thoughts])).toEqual([['Main line', 1], ['Database', 2], ['CDN', 1]]);
+      expect(metrics.repetition.rate).toBe(0);
+      expect(metrics.nextSteps).toContain('Re-examine 1 stale thought(s) built on revised reasoning');
+    });
+
+    it('warns as the thought limit approaches', () => {
+      const metrics = thinkingProgressService.analyze(input(covered, { maxThoughts: 5 }), 1);
+
+      expect(metrics.insights).toContain('2 thought(s) left before the limit of 5');
+      expect(metrics.nextSteps).toContain('Start converging on a conclusion');
+    });
+  });
+});
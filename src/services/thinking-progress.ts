@@ -0,0 +1,245 @@
+import { nlpService } from './nlp.js';
+
+export interface ProgressInput {
+  problem: string;
+  context?: string;
+  maxThoughts: number;
+  // Every thought in the order it was added
+  thoughts: { id: string; content: string; depth: number; branchId?: string; stale?: unknown }[];
+  branches: { id: string; description: string; status: string }[];
+}
+
+export interface ProgressMetrics {
+  structure: {
+    // Levels in the thought tree; a single chain of n thoughts has depth n
+    treeDepth: number;
+    // Most thoughts at any one level
+    breadth: number;
+    averageDepth: number;
+    thoughtsPerBranch: { branchId: string | null; description: string; status: string; thoughts: number }[];
+    activeBranches: number;
+    staleThoughts: number;
+  };
+  repetition: {
+    rate: number;
+    repeated: { thoughtId: string; similarTo: string; similarity: number }[];
+  };
+  keywordDrift: {
+    problemKeywords: string[];
+    // Problem keywords no thought has mentioned
+    unaddressedKeywords: string[];
+    // Share of problem keywords missing from the latest thoughts; 1 means they have left the problem entirely
+    drift: number;
+  };
+  stagnation: {
+    stagnating: boolean;
+    window: number;
+    newPhrasesInWindow: string[];
+  };
+  verdict: 'keep_thinking' | 'change_approach' | 'ready_to_conclude';
+  insights: string[];
+  nextSteps: string[];
+}
+
+// A thought this similar to an earlier one restates it
+const REPETITION_THRESHOLD = 0.6;
+
+// Latest thoughts checked for drift from the problem
+const DRIFT_WINDOW = 5;
+
+// Latest thoughts that must add a new key phrase for the session to count as moving
+const STAGNATION_WINDOW = 3;
+
+// Drift at or above this means the latest thoughts have left the problem
+const DRIFT_THRESHOLD = 0.8;
+
+const PROBLEM_KEYWORDS = 10;
+
+// Problems are often phrased as questions; these words say nothing about the topic
+const FILLER_WORDS = new Set(['how', 'what', 'why', 'when', 'where', 'which', 'who', 'whom', 'whose', 'our', 'your', 'their', 'its']);
+
+export class ThinkingProgressService {
+  /**
+   * Measure the shape of a thinking session and whether it is still making headway
+   */
+  analyze(input: ProgressInput, openEnds: number): ProgressMetrics {
+    // Abandoned lines of thought no longer count towards headway
+    const abandoned = new Set(input.branches.filter(b => b.status === 'abandoned').map(b => b.id));
+    const live = input.thoughts.filter(t => !t.branchId || !abandoned.has(t.branchId));
+
+    const structure = this.structure(input);
+    const repetition = this.repetition(live);
+    const keywordDrift = this.keywordDrift(input, live);
+    const stagnation = this.stagnation(input, live);
+
+    const drifted = keywordDrift.drift >= DRIFT_THRESHOLD && live.length >= DRIFT_WINDOW;
+    let verdict: ProgressMetrics['verdict'] = 'keep_thinking';
+    if (stagnation.stagnating || repetition.rate >= 0.5 || drifted) {
+      verdict = 'change_approach';
+    } else if (
+      live.length >= STAGNATION_WINDOW
+      && openEnds === 0
+      && repetition.rate < 0.25
+      && keywordDrift.unaddressedKeywords.length <= keywordDrift.problemKeywords.length / 2
+    ) {
+      verdict = 'ready_to_conclude';
+    }
+
+    return {
+      structure,
+      repetition,
+      keywordDrift,
+      stagnation,
+      verdict,
+      ...this.generateInsights(input, live, structure, repetition, keywordDrift, stagnation, drifted, verdict)
+    };
+  }
+
+  private structure(input: ProgressInput): ProgressMetrics['structure'] {
+    const perLevel = new Map<number, number>();
+    input.thoughts.forEach(t => perLevel.set(t.depth, (perLevel.get(t.depth) || 0) + 1));
+    const depths = input.thoughts.map(t => t.depth);
+
+    return {
+      treeDepth: depths.length > 0 ? Math.max(...depths) + 1 : 0,
+      breadth: perLevel.size > 0 ? Math.max(...perLevel.values()) : 0,
+      averageDepth: depths.length > 0 ? this.round(depths.reduce((sum, d) => sum + d, 0) / depths.length) : 0,
+      thoughtsPerBranch: [
+        { branchId: null, description: 'Main line', status: 'main', thoughts: input.thoughts.filter(t => !t.branchId).length },
+        ...input.branches.map(b => ({
+          branchId: b.id,
+          description: b.description,
+          status: b.status,
+          thoughts: input.thoughts.filter(t => t.branchId === b.id).length
+        }))
+      ],
+      activeBranches: input.branches.filter(b => b.status === 'exploring').length,
+      staleThoughts: input.thoughts.filter(t => t.stale).length
+    };
+  }
+
+  private repetition(live: ProgressInput['thoughts']): ProgressMetrics['repetition'] {
+    const repeated: ProgressMetrics['repetition']['repeated'] = [];
+    live.forEach((thought, i) => {
+      let best = { similarTo: '', similarity: 0 };
+      live.slice(0, i).forEach(earlier => {
+        const { similarity } = nlpService.analyzeSimilarity(thought.content, earlier.content);
+        if (similarity > best.similarity) best = { similarTo: earlier.id, similarity };
+      });
+      if (best.similarity >= REPETITION_THRESHOLD) {
+        repeated.push({ thoughtId: thought.id, similarTo: best.similarTo, similarity: this.round(best.similarity) });
+      }
+    });
+
+    return { rate: live.length > 0 ? this.round(repeated.length / live.length) : 0, repeated };
+  }
+
+  private keywordDrift(input: ProgressInput, live: ProgressInput['thoughts']): ProgressMetrics['keywordDrift'] {
+    const problemKeywords = nlpService.analyzeKeywords(`${input.problem} ${input.context || ''}`).keywords
+      .map(k => k.word)
+      .filter(word => !FILLER_WORDS.has(word))
+      .slice(0, PROBLEM_KEYWORDS);
+    const mentioned = this.words(live.map(t => t.content).join(' '));
+    const recent = this.words(live.slice(-DRIFT_WINDOW).map(t => t.content).join(' '));
+
+    return {
+      problemKeywords,
+      unaddressedKeywords: problemKeywords.filter(word => !mentioned.has(word)),
+      drift: live.length > 0 && problemKeywords.length > 0
+        ? this.round(problemKeywords.filter(word => !recent.has(word)).length / problemKeywords.length)
+        : 0
+    };
+  }
+
+  private stagnation(input: ProgressInput, live: ProgressInput['thoughts']): ProgressMetrics['stagnation'] {
+    // Needs earlier thoughts to compare the window against
+    if (live.length <= STAGNATION_WINDOW) {
+      return { stagnating: false, window: STAGNATION_WINDOW, newPhrasesInWindow: [] };
+    }
+
+    const seen = new Set(nlpService.analyzeKeywords(input.problem).keyPhrases);
+    const cutoff = live.length - STAGNATION_WINDOW;
+    const newPhrasesInWindow: string[] = [];
+    live.forEach((thought, i) => {
+      nlpService.analyzeKeywords(thought.content).keyPhrases.forEach(phrase => {
+        if (i >= cutoff && !seen.has(phrase)) newPhrasesInWindow.push(phrase);
+        seen.add(phrase);
+      });
+    });
+
+    return { stagnating: newPhrasesInWindow.length === 0, window: STAGNATION_WINDOW, newPhrasesInWindow };
+  }
+
+  private generateInsights(
+    input: ProgressInput,
+    live: ProgressInput['thoughts'],
+    structure: ProgressMetrics['structure'],
+    repetition: ProgressMetrics['repetition'],
+    keywordDrift: ProgressMetrics['keywordDrift'],
+    stagnation: ProgressMetrics['stagnation'],
+    drifted: boolean,
+    verdict: ProgressMetrics['verdict']
+  ): { insights: string[]; nextSteps: string[] } {
+    const insights: string[] = [];
+    const nextSteps: string[] = [];
+
+    if (input.thoughts.length === 0) {
+      nextSteps.push('Add a first thought that restates the problem in your own words');
+      return { insights, nextSteps };
+    }
+
+    insights.push(`${input.thoughts.length} thought(s) across ${structure.treeDepth} level(s), at most ${structure.breadth} side by side`);
+
+    if (stagnation.stagnating) {
+      insights.push(`The last ${stagnation.window} thoughts add no new key phrases`);
+      const latest = live[live.length - 1];
+      nextSteps.push(`Branch from "${this.truncate(latest.content)}" to try a different angle, or conclude with what you have`);
+    }
+    if (repetition.repeated.length > 0) {
+      insights.push(`${repetition.repeated.length} thought(s) restate an earlier one (repetition rate ${repetition.rate})`);
+      if (!stagnation.stagnating) {
+        nextSteps.push('Build on earlier thoughts instead of restating them');
+      }
+    }
+    if (drifted) {
+      insights.push(`The latest thoughts have drifted from the problem (drift ${keywordDrift.drift})`);
+      nextSteps.push(`Return to the problem: ${keywordDrift.problemKeywords.slice(0, 3).join(', ')}`);
+    }
+    if (keywordDrift.unaddressedKeywords.length > 0) {
+      nextSteps.push(`Not yet addressed: ${keywordDrift.unaddressedKeywords.join(', ')}`);
+    }
+    if (structure.activeBranches > 1) {
+      insights.push(`${structure.activeBranches} branches are still exploring`);
+      nextSteps.push('Compare the exploring branches, then merge, adopt or abandon them');
+    }
+    if (structure.staleThoughts > 0) {
+      nextSteps.push(`Re-examine ${structure.staleThoughts} stale thought(s) built on revised reasoning`);
+    }
+
+    const remaining = input.maxThoughts - input.thoughts.length;
+    if (remaining <= Math.max(3, input.maxThoughts * 0.1)) {
+      insights.push(`${remaining} thought(s) left before the limit of ${input.maxThoughts}`);
+      nextSteps.push('Start converging on a conclusion');
+    }
+    if (verdict === 'ready_to_conclude') {
+      nextSteps.push('Conclude: the problem is covered and no questions, hypotheses or counterarguments are open');
+    }
+
+    return { insights, nextSteps };
+  }
+
+  private words(text: string): Set<string> {
+    return new Set(text.toLowerCase().split(/[^\w]+/).filter(word => word.length > 0));
+  }
+
+  private truncate(text: string): string {
+    return text.length > 60 ? `${text.substring(0, 57)}...` : text;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// Singleton instance
+export const thinkingProgressService = new ThinkingProgressService();
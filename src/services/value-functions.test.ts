@@ -0,0 +1,55 @@
+import { describe, expect, it } from '@jest/globals';
+import { valueFunctionService } from './value-functions.js';
+
+describe('ValueFunctionService', () => {
+  describe('apply', () => {
+    it('maps values linearly between worst and best, clamping outside them', () => {
+      const latency = { type: 'linear' as const, worst: 200, best: 50 };
+
+      expect([250, 200, 125, 50, 10].map(value => valueFunctionService.apply(latency, value))).toEqual([0, 0, 5, 10, 10]);
+    });
+
+    it('interpolates piecewise-linear points in any order', () => {
+      const fn = { type: 'piecewise_linear' as const, points: [{ value: 200, utility: 0 }, { value: 50, utility: 10 }, { value: 100, utility: 8 }] };
+
+      expect([20, 75, 150, 300].map(value => valueFunctionService.apply(fn, value))).toEqual([10, 9, 4, 0]);
+    });
+
+    it('bends the exponential curve by its curvature', () => {
+      const fn = (curvature: number) => ({ type: 'exponential' as const, worst: 0, best: 100, curvature });
+
+      expect(valueFunctionService.apply(fn(2), 50)).toBeGreaterThan(5);
+      expect(valueFunctionService.apply(fn(-2), 50)).toBeLessThan(5);
+      expect(valueFunctionService.apply(fn(0), 50)).toBe(5);
+      expect(valueFunctionService.apply(fn(2), 100)).toBe(10);
+    });
+
+    it('gives all or nothing at a threshold', () => {
+      const uptime = { type: 'threshold' as const, threshold: 99.9, direction: 'at_least' as const };
+
+      expect(valueFunctionService.apply(uptime, 99.95)).toBe(10);
+      expect(valueFunctionService.apply(uptime, 99.5)).toBe(0);
+    });
+  });
+
+  describe('validate', () => {
+    it('rejects functions that cannot map values', () => {
+      expect(() => valueFunctionService.validate({ type: 'linear', worst: 5, best: 5 }))
+        .toThrow('linear value function needs different worst and best values');
+      expect(() => valueFunctionService.validate({ type: 'piecewise_linear', points: [{ value: 1, utility: 0 }, { value: 1, utility: 10 }] }))
+        .toThrow('piecewise_linear value function points must have distinct values');
+    });
+  });
+
+  describe('curve', () => {
+    it('samples the curve in ascending order of value', () => {
+      expect(valueFunctionService.curve({ type: 'linear', worst: 200, best: 0 })).toEqual([
+        { value: 0, utility: 10 },
+        { value: 50, utility: 7.5 },
+        { value: 100, utility: 5 },
+        { value: 150, utility: 2.5 },
+        { value: 200, utility: 0 }
+      ]);
+    });
+  });
+});
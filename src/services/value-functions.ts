@@ -0,0 +1,99 @@
+import type { ValueFunction } from '../types/decision-types.js';
+
+export interface CurvePoint {
+  value: number;
+  utility: number;
+}
+
+// Samples used to show a continuous curve in exports
+const CURVE_SAMPLES = 5;
+
+export class ValueFunctionService {
+  /**
+   * Utility (0-10) of a raw measured value
+   */
+  apply(fn: ValueFunction, raw: number): number {
+    switch (fn.type) {
+      case 'linear':
+        return this.round(this.position(raw, fn.worst, fn.best) * 10);
+      case 'exponential': {
+        const z = this.position(raw, fn.worst, fn.best);
+        const utility = fn.curvature === 0 ? z : (1 - Math.exp(-fn.curvature * z)) / (1 - Math.exp(-fn.curvature));
+        return this.round(utility * 10);
+      }
+      case 'piecewise_linear': {
+        const points = [...fn.points].sort((a, b) => a.value - b.value);
+        if (raw <= points[0].value) return points[0].utility;
+        if (raw >= points[points.length - 1].value) return points[points.length - 1].utility;
+        const upper = points.findIndex(point => point.value >= raw);
+        const a = points[upper - 1];
+        const b = points[upper];
+        return this.round(a.utility + ((raw - a.value) / (b.value - a.value)) * (b.utility - a.utility));
+      }
+      case 'threshold': {
+        const passes = fn.direction === 'at_least' ? raw >= fn.threshold : raw <= fn.threshold;
+        return passes ? 10 : 0;
+      }
+    }
+  }
+
+  /**
+   * Reject functions that cannot map values, such as a linear function whose worst equals its best
+   */
+  validate(fn: ValueFunction): void {
+    if ((fn.type === 'linear' || fn.type === 'exponential') && fn.worst === fn.best) {
+      throw new Error(`${fn.type} value function needs different worst and best values`);
+    }
+    if (fn.type === 'piecewise_linear') {
+      const values = fn.points.map(point => point.value);
+      if (new Set(values).size !== values.length) {
+        throw new Error('piecewise_linear value function points must have distinct values');
+      }
+    }
+  }
+
+  /**
+   * One-line description for reports
+   */
+  describe(fn: ValueFunction): string {
+    switch (fn.type) {
+      case 'linear':
+        return `Linear: utility 0 at ${fn.worst} rising to 10 at ${fn.best}`;
+      case 'exponential':
+        return `Exponential: utility 0 at ${fn.worst} rising to 10 at ${fn.best}, curvature ${fn.curvature} (${fn.curvature > 0 ? 'diminishing' : fn.curvature < 0 ? 'increasing' : 'constant'} returns)`;
+      case 'piecewise_linear':
+        return `Piecewise linear through ${[...fn.points].sort((a, b) => a.value - b.value).map(p => `(${p.value}, ${p.utility})`).join(', ')}`;
+      case 'threshold':
+        return `Threshold: utility 10 when ${fn.direction === 'at_least' ? 'at least' : 'at most'} ${fn.threshold}, otherwise 0`;
+    }
+  }
+
+  /**
+   * Representative points on the curve, in ascending order of value; a threshold is just its step
+   */
+  curve(fn: ValueFunction): CurvePoint[] {
+    let values: number[];
+    if (fn.type === 'piecewise_linear') {
+      values = fn.points.map(point => point.value);
+    } else if (fn.type === 'threshold') {
+      values = [fn.threshold];
+    } else {
+      values = Array.from({ length: CURVE_SAMPLES }, (_, i) => fn.worst + ((fn.best - fn.worst) * i) / (CURVE_SAMPLES - 1));
+    }
+
+    return values
+      .sort((a, b) => a - b)
+      .map(value => ({ value: this.round(value), utility: this.apply(fn, value) }));
+  }
+
+  private position(raw: number, worst: number, best: number): number {
+    return Math.min(1, Math.max(0, (raw - worst) / (best - worst)));
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// Singleton instance
+export const valueFunctionService = new ValueFunctionService();
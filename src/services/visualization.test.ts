@@ -0,0 +1,52 @@
+import { describe, expect, it } from '@jest/globals';
+import { visualizationService } from './visualization.js';
+import type { DominanceResult } from './scoring.js';
+import type { DecisionSession } from '../types/decision-types.js';
+
+const dominance: DominanceResult = {
+  paretoOptimal: [{ optionId: 'postgres-id', name: 'Postgres' }],
+  dominated: [{
+    optionId: 'oracle-id',
+    name: 'Oracle',
+    dominatedBy: [{ optionId: 'postgres-id', name: 'Postgres' }],
+    strict: true
+  }],
+  incompletePairs: 0,
+  warnings: []
+};
+
+const session = (analysis?: { dominance: DominanceResult }): DecisionSession => ({
+  id: 'session-id',
+  context: 'Choose a database',
+  criteria: [{ id: 'cost-id', name: 'Cost', description: '', type: 'cost', weight: 1 }],
+  options: ['Postgres', 'Oracle'].map(name => ({
+    id: `${name.toLowerCase()}-id`,
+    name,
+    description: '',
+    pros: [],
+    cons: [],
+    risks: []
+  })),
+  evaluations: [],
+  status: 'evaluating',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...(analysis ? { analysis } : {})
+});
+
+describe('VisualizationService', () => {
+  describe('generateDecisionDiagram', () => {
+    it('marks dominated options from the last analysis when no dominance is passed', () => {
+      const { content } = visualizationService.generateDecisionDiagram(session({ dominance }));
+
+      expect(content).toContain('class Ooracle-i dominated');
+      expect(content).toContain('Opostgres -.->|dominates| Ooracle-i');
+    });
+
+    it('draws no dominance edges for a session that has not been analysed', () => {
+      const { content } = visualizationService.generateDecisionDiagram(session());
+
+      expect(content).not.toContain('dominates');
+    });
+  });
+});
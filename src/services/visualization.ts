@@ -1,5 +1,8 @@
 import type { ThinkingSession } from '../types/thinking-types.js';
-import type { DecisionSession } from '../types/decision-types.js';
+import type { DecisionSession, DecisionTreeSession } from '../types/decision-types.js';
+import { scoringService, type SensitivityResult, type DominanceResult } from './scoring.js';
+import { valueFunctionService } from './value-functions.js';
+import type { DecisionTreeAnalysis } from './decision-tree.js';
 
 export interface VisualizationOptions {
   format: 'mermaid' | 'json' | 'markdown';
@@ -65,10 +68,14 @@ export class VisualizationService {
     });
 
     // Add branches
-    session.branches.forEach(branchId => {
-      const branchNodeId = 'B' + branchId.substring(0, 8);
-      mermaidContent += `    ${branchNodeId}["🌿 Branch: ${branchId.substring(0, 20)}..."]\n`;
+    session.branches.forEach(branch => {
+      const branchNodeId = 'B' + branch.id.substring(0, 8);
+      mermaidContent += `    ${branchNodeId}["🌿 Branch: ${this.escapeText(branch.description.substring(0, 50))} (${branch.status})"]\n`;
       nodeCount++;
+      if (thoughtNodes.has(branch.fromThoughtId)) {
+        mermaidContent += `    ${thoughtNodes.get(branch.fromThoughtId)} -.-> ${branchNodeId}\n`;
+        edgeCount++;
+      }
     });
 
     // Add conclusion if exists
@@ -107,7 +114,12 @@ export class VisualizationService {
   /**
    * Generate Mermaid diagram for decision session
    */
-  generateDecisionDiagram(session: DecisionSession, options: VisualizationOptions = { format: 'mermaid' }): VisualizationResult {
+  generateDecisionDiagram(
+    session: DecisionSession,
+    options: VisualizationOptions = { format: 'mermaid' },
+    // Defaults to the dominance found by the session's last analysis
+    dominance: DominanceResult | undefined = (session as DecisionSession & { analysis?: { dominance?: DominanceResult } }).analysis?.dominance
+  ): VisualizationResult {
     const { includeMetadata = false } = options;
     
     let mermaidContent = 'graph TD\n';
@@ -161,6 +173,23 @@ export class VisualizationService {
       }
     });
 
+    // Mark Pareto-dominated options and link each to the options that dominate it
+    if (dominance && dominance.dominated.length > 0) {
+      mermaidContent += '    classDef dominated stroke-dasharray: 5 5,opacity:0.6\n';
+      dominance.dominated.forEach(relation => {
+        const dominatedNodeId = optionNodes.get(relation.optionId);
+        if (!dominatedNodeId) return;
+        mermaidContent += `    class ${dominatedNodeId} dominated\n`;
+        relation.dominatedBy.forEach(dominator => {
+          const dominatorNodeId = optionNodes.get(dominator.optionId);
+          if (dominatorNodeId) {
+            mermaidContent += `    ${dominatorNodeId} -.->|dominates| ${dominatedNodeId}\n`;
+            edgeCount++;
+          }
+        });
+      });
+    }
+
     // Add recommendation if exists
     if (session.recommendation) {
       const recNodeId = 'R' + session.id.substring(0, 8);
@@ -194,6 +223,110 @@ export class VisualizationService {
     };
   }
 
+  /**
+   * Generate Mermaid bar chart of the weight change needed to flip the recommendation
+   */
+  generateSensitivityChart(sessionId: string, sensitivity: SensitivityResult): VisualizationResult {
+    const labels = sensitivity.criteria.map(c => `"${this.escapeText(c.name.substring(0, 20))}"`);
+    // Criteria that never flip the result are drawn at the full tested range
+    const values = sensitivity.criteria.map(c => c.criticalChange ?? sensitivity.range);
+
+    let mermaidContent = 'xychart-beta\n';
+    mermaidContent += `    title "Weight change needed to change the top option (stability ${Math.round(sensitivity.stabilityScore * 100)}%)"\n`;
+    mermaidContent += `    x-axis [${labels.join(', ')}]\n`;
+    mermaidContent += `    y-axis "Absolute weight change" 0 --> ${sensitivity.range}\n`;
+    mermaidContent += `    bar [${values.join(', ')}]\n`;
+
+    return {
+      id: `sensitivity_${sessionId}_${Date.now()}`,
+      sessionId,
+      sessionType: 'decision',
+      format: 'mermaid',
+      content: mermaidContent,
+      metadata: {
+        nodeCount: sensitivity.criteria.length,
+        edgeCount: 0,
+        depth: 1,
+        generatedAt: new Date()
+      }
+    };
+  }
+
+  /**
+   * Generate Mermaid flowchart of a decision tree, highlighting the optimal choices
+   */
+  generateDecisionTreeDiagram(session: DecisionTreeSession, analysis?: Omit<DecisionTreeAnalysis, 'rootId'>): VisualizationResult {
+    let mermaidContent = 'flowchart LR\n';
+    let edgeCount = 0;
+
+    // User-supplied node IDs may not be valid Mermaid identifiers
+    const nodeIds = new Map(session.nodes.map((node, index) => [node.id, `N${index}`]));
+    const chosen = new Set((analysis?.policy || []).map(p => p.choiceId));
+    const depths = new Map<string, number>();
+    const depthOf = (id: string): number => {
+      if (!depths.has(id)) {
+        const parentId = session.nodes.find(node => node.id === id)?.parentId;
+        depths.set(id, parentId ? depthOf(parentId) + 1 : 0);
+      }
+      return depths.get(id) as number;
+    };
+
+    session.nodes.forEach(node => {
+      const nodeId = nodeIds.get(node.id) as string;
+      const value = analysis?.nodeValues[node.id];
+      let text = this.escapeText(node.label.substring(0, 40));
+      if (node.type === 'terminal') {
+        text += `<br/>payoff ${node.payoff}`;
+      } else if (value !== undefined) {
+        text += `<br/>EV ${value}`;
+      }
+      if (node.cost) {
+        text += `<br/>cost ${node.cost}`;
+      }
+
+      // Squares for decisions, circles for chance events, flags for outcomes
+      if (node.type === 'decision') {
+        mermaidContent += `    ${nodeId}["${text}"]\n`;
+      } else if (node.type === 'chance') {
+        mermaidContent += `    ${nodeId}(("${text}"))\n`;
+      } else {
+        mermaidContent += `    ${nodeId}>"${text}"]\n`;
+      }
+
+      if (node.parentId && nodeIds.has(node.parentId)) {
+        const parent = session.nodes.find(n => n.id === node.parentId);
+        const arrow = chosen.has(node.id) ? '==>' : '-->';
+        const label = parent?.type === 'chance' ? `|"p=${node.probability}"|` : '';
+        mermaidContent += `    ${nodeIds.get(node.parentId)} ${arrow}${label} ${nodeId}\n`;
+        edgeCount++;
+      }
+    });
+
+    mermaidContent += '    classDef decision fill:#e3f2fd,stroke:#1565c0\n';
+    mermaidContent += '    classDef chance fill:#fff8e1,stroke:#f9a825\n';
+    mermaidContent += '    classDef terminal fill:#e8f5e9,stroke:#2e7d32\n';
+    (['decision', 'chance', 'terminal'] as const).forEach(type => {
+      const ids = session.nodes.filter(node => node.type === type).map(node => nodeIds.get(node.id));
+      if (ids.length > 0) {
+        mermaidContent += `    class ${ids.join(',')} ${type}\n`;
+      }
+    });
+
+    return {
+      id: `decision_tree_${session.id}_${Date.now()}`,
+      sessionId: session.id,
+      sessionType: 'decision',
+      format: 'mermaid',
+      content: mermaidContent,
+      metadata: {
+        nodeCount: session.nodes.length,
+        edgeCount,
+        depth: session.nodes.reduce((max, node) => Math.max(max, depthOf(node.id) + 1), 0),
+        generatedAt: new Date()
+      }
+    };
+  }
+
   /**
    * Generate JSON export
    */
@@ -292,12 +425,35 @@ export class VisualizationService {
       markdown += `**Created:** ${session.createdAt.toLocaleString()}\n`;
       markdown += `**Updated:** ${session.updatedAt.toLocaleString()}\n\n`;
 
+      // Measured cells show reviewers how raw numbers became scores
+      const matrix = scoringService.buildMatrix({ criteria: session.criteria, options: session.options, evaluations: [] });
+
       markdown += `## Criteria\n\n`;
-      session.criteria.forEach(criteria => {
+      session.criteria.forEach((criteria, j) => {
         markdown += `### ${criteria.name}\n`;
         markdown += `- **Weight:** ${criteria.weight}\n`;
         markdown += `- **Type:** ${criteria.type}\n`;
-        markdown += `- **Description:** ${criteria.description}\n\n`;
+        markdown += `- **Description:** ${criteria.description}\n`;
+        if (criteria.valueFunction) {
+          markdown += `- **Value function:** ${valueFunctionService.describe(criteria.valueFunction)}\n`;
+          if (criteria.valueFunction.type !== 'threshold') {
+            markdown += `\n| Raw value | Utility (0-10) |\n|---|---|\n`;
+            valueFunctionService.curve(criteria.valueFunction).forEach(point => {
+              markdown += `| ${point.value} | ${point.utility} |\n`;
+            });
+          }
+
+          const measured = session.options
+            .map((option, i) => ({ option, cell: matrix.cells[i][j] }))
+            .filter(entry => entry.cell?.raw !== undefined);
+          if (measured.length > 0) {
+            markdown += `\n| Option | Measured | Score |\n|---|---|---|\n`;
+            measured.forEach(({ option, cell }) => {
+              markdown += `| ${option.name} | ${cell?.raw} | ${Math.round((cell?.value ?? 0) * 100) / 100} |\n`;
+            });
+          }
+        }
+        markdown += `\n`;
         nodeCount++;
       });
 
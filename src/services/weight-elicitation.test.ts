@@ -0,0 +1,81 @@
+import { describe, expect, it } from '@jest/globals';
+import { weightElicitationService } from './weight-elicitation.js';
+import type { Criteria } from '../types/decision-types.js';
+
+const criteria: Criteria[] = ['Cost', 'Speed', 'Support'].map(name => ({
+  id: name.toLowerCase(),
+  name,
+  description: '',
+  type: 'benefit',
+  weight: 0
+}));
+
+const weights = (result: { weights: { weight: number }[] }): number[] => result.weights.map(w => w.weight);
+
+describe('WeightElicitationService', () => {
+  describe('swing', () => {
+    it('normalises swing ratings into weights', () => {
+      const result = weightElicitationService.swing(criteria, [100, 50, 50]);
+
+      expect(weights(result)).toEqual([0.5, 0.25, 0.25]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('warns when no swing anchors the scale or a criterion gets no weight', () => {
+      const result = weightElicitationService.swing(criteria, [80, 20, 0]);
+
+      expect(weights(result)).toEqual([0.8, 0.2, 0]);
+      expect(result.warnings).toEqual([
+        'No swing was rated 100; the most important swing should anchor the scale',
+        'Support was rated 0 and gets no weight'
+      ]);
+    });
+
+    it('rejects ratings outside 0-100 or all zero', () => {
+      expect(() => weightElicitationService.swing(criteria, [100, 150, 0])).toThrow('Swing ratings must be between 0 and 100');
+      expect(() => weightElicitationService.swing(criteria, [0, 0, 0])).toThrow('At least one swing rating must be above 0');
+      expect(() => weightElicitationService.swing(criteria, [100])).toThrow('Swing weighting needs a rating for each of the 3 criteria');
+    });
+  });
+
+  describe('rankOrderCentroid', () => {
+    it('gives centroid weights by rank', () => {
+      // Speed first, then Cost, then Support
+      const result = weightElicitationService.rankOrderCentroid(criteria, [1, 0, 2]);
+
+      expect(weights(result)).toEqual([0.2778, 0.6111, 0.1111]);
+    });
+
+    it('needs every criterion ranked exactly once', () => {
+      expect(() => weightElicitationService.rankOrderCentroid(criteria, [0, 0, 1]))
+        .toThrow('Rank-order centroid needs every one of the 3 criteria ranked exactly once');
+    });
+  });
+
+  describe('pairwise', () => {
+    it('derives AHP weights with their consistency ratio', () => {
+      const result = weightElicitationService.pairwise(criteria, [[1, 3, 3], [1 / 3, 1, 1], [1 / 3, 1, 1]]);
+
+      expect(weights(result)).toEqual([0.6, 0.2, 0.2]);
+      expect(result.consistencyRatio).toBe(0);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('warns about non-reciprocal and inconsistent judgements', () => {
+      const result = weightElicitationService.pairwise(criteria, [[1, 9, 1 / 9], [1 / 9, 1, 9], [9, 1 / 9, 1]]);
+      const lopsided = weightElicitationService.pairwise(criteria, [[1, 3, 1], [3, 1, 1], [1, 1, 1]]);
+
+      expect(result.warnings[0]).toMatch(/^Pairwise comparisons are inconsistent \(CR [\d.]+ > 0\.1\)/);
+      expect(lopsided.warnings[0]).toBe('Comparisons of Cost and Speed are not reciprocal (3 vs 3)');
+    });
+  });
+
+  describe('checkNormalisation', () => {
+    it('accepts weights summing to 1 within tolerance', () => {
+      const weighted = (...values: number[]) => criteria.map((c, j) => ({ ...c, weight: values[j] }));
+
+      expect(weightElicitationService.checkNormalisation(weighted(0.5, 0.3, 0.195))).toEqual({ total: 0.995, normalised: true });
+      expect(weightElicitationService.checkNormalisation(weighted(0.5, 0.3, 0.5))).toEqual({ total: 1.3, normalised: false });
+    });
+  });
+});
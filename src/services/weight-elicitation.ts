@@ -0,0 +1,139 @@
+import type { Criteria } from '../types/decision-types.js';
+import { mcdaService } from './mcda.js';
+
+export type WeightElicitationMethod = 'swing' | 'rank_order_centroid' | 'pairwise';
+
+export const WEIGHT_ELICITATION_METHODS: WeightElicitationMethod[] = ['swing', 'rank_order_centroid', 'pairwise'];
+
+export interface ElicitedWeight {
+  criterionId: string;
+  name: string;
+  weight: number;
+  previousWeight: number;
+}
+
+export interface WeightElicitationResult {
+  method: WeightElicitationMethod;
+  weights: ElicitedWeight[];
+  // Saaty consistency ratio, pairwise only
+  consistencyRatio: number | null;
+  warnings: string[];
+}
+
+// Weight totals within this distance of 1 count as normalised
+const NORMALISATION_TOLERANCE = 0.01;
+
+// Reciprocal entries may be rounded, e.g. 1/3 entered as 0.33
+const RECIPROCAL_TOLERANCE = 0.05;
+
+export class WeightElicitationService {
+  /**
+   * Swing weighting: each criterion's swing from worst to best is rated 0-100 against the most important swing (100)
+   */
+  swing(criteria: Criteria[], points: number[]): WeightElicitationResult {
+    if (points.length !== criteria.length) {
+      throw new Error(`Swing weighting needs a rating for each of the ${criteria.length} criteria`);
+    }
+    if (points.some(p => typeof p !== 'number' || p < 0 || p > 100)) {
+      throw new Error('Swing ratings must be between 0 and 100');
+    }
+    const total = points.reduce((sum, p) => sum + p, 0);
+    if (total === 0) {
+      throw new Error('At least one swing rating must be above 0');
+    }
+
+    const warnings: string[] = [];
+    if (!points.includes(100)) {
+      warnings.push('No swing was rated 100; the most important swing should anchor the scale');
+    }
+    points.forEach((p, j) => {
+      if (p === 0) warnings.push(`${criteria[j].name} was rated 0 and gets no weight`);
+    });
+
+    return this.result('swing', criteria, points.map(p => p / total), null, warnings);
+  }
+
+  /**
+   * Rank-order centroid weights from criteria ranked most to least important
+   */
+  rankOrderCentroid(criteria: Criteria[], ranks: number[]): WeightElicitationResult {
+    const n = criteria.length;
+    if (ranks.length !== n || new Set(ranks).size !== n || ranks.some(r => r < 0 || r >= n)) {
+      throw new Error(`Rank-order centroid needs every one of the ${n} criteria ranked exactly once`);
+    }
+
+    // w_k = (1/n) * sum of 1/i for i = k..n, where k is the 1-based rank
+    const centroid = (rank: number): number => {
+      let sum = 0;
+      for (let i = rank + 1; i <= n; i++) sum += 1 / i;
+      return sum / n;
+    };
+
+    return this.result('rank_order_centroid', criteria, ranks.map(centroid), null, []);
+  }
+
+  /**
+   * AHP weights from a Saaty-scale pairwise comparison matrix in criteria order
+   */
+  pairwise(criteria: Criteria[], comparisons: number[][]): WeightElicitationResult {
+    const n = criteria.length;
+    if (comparisons.length !== n || comparisons.some(row => !Array.isArray(row) || row.length !== n)) {
+      throw new Error(`Pairwise comparisons must be a ${n}x${n} matrix in criteria order`);
+    }
+    if (comparisons.some(row => row.some(value => typeof value !== 'number' || value <= 0))) {
+      throw new Error('Pairwise comparison values must be positive numbers');
+    }
+
+    const warnings: string[] = [];
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        if (Math.abs(comparisons[i][j] * comparisons[j][i] - 1) > RECIPROCAL_TOLERANCE) {
+          warnings.push(`Comparisons of ${criteria[i].name} and ${criteria[j].name} are not reciprocal (${comparisons[i][j]} vs ${comparisons[j][i]})`);
+        }
+      }
+    }
+
+    const result = mcdaService.calculatePairwisePriorities(comparisons);
+    const consistencyRatio = this.round(result.consistencyRatio);
+    if (!result.isConsistent) {
+      warnings.push(`Pairwise comparisons are inconsistent (CR ${consistencyRatio} > 0.1); revisit the judgements before relying on these weights`);
+    }
+
+    return this.result('pairwise', criteria, result.priorities, consistencyRatio, warnings);
+  }
+
+  /**
+   * Sum of criterion weights and whether it is 1 within tolerance
+   */
+  checkNormalisation(criteria: Criteria[]): { total: number; normalised: boolean } {
+    const total = criteria.reduce((sum, c) => sum + (c.weight || 0), 0);
+    return { total: this.round(total), normalised: Math.abs(total - 1) <= NORMALISATION_TOLERANCE };
+  }
+
+  private result(
+    method: WeightElicitationMethod,
+    criteria: Criteria[],
+    weights: number[],
+    consistencyRatio: number | null,
+    warnings: string[]
+  ): WeightElicitationResult {
+    return {
+      method,
+      weights: criteria.map((criterion, j) => ({
+        criterionId: criterion.id,
+        name: criterion.name,
+        weight: this.round(weights[j]),
+        previousWeight: criterion.weight
+      })),
+      consistencyRatio,
+      warnings
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
+
+// Singleton instance
+export const weightElicitationService = new WeightElicitationService();
@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { DecisionAnalyzerTool } from './decision-analyzer.js';
+import { DecisionMakerTool } from './decision-maker.js';
+
+describe('DecisionAnalyzerTool', () => {
+  let maker: DecisionMakerTool;
+  let analyzer: DecisionAnalyzerTool;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    maker = new DecisionMakerTool();
+    analyzer = new DecisionAnalyzerTool(async id => (await maker.getSession(id)).data);
+    sessionId = (await maker.startDecision({ context: 'Choose a database' })).data.id;
+  });
+
+  describe('validateLogic', () => {
+    it('reports dominated options in a session scored only by measurements', async () => {
+      await maker.addCriteria({ sessionId, name: 'Cost', description: '', type: 'cost', weight: 1, measure: 'estimatedCost' });
+      await maker.addOption({ sessionId, name: 'Postgres', estimatedCost: 100 });
+      await maker.addOption({ sessionId, name: 'Oracle', estimatedCost: 400 });
+
+      const result = await analyzer.validateLogic({ sessionId });
+
+      expect(result.data.dominance.dominated.map((d: any) => d.name)).toEqual(['Oracle']);
+      expect(result.data.warnings).toContain('Option Oracle is dominated by Option Postgres on every criterion');
+      expect(result.data.recommendations).toContain('Drop dominated options from review: Oracle');
+    });
+
+    it('skips the dominance check before any option is scored', async () => {
+      await maker.addCriteria({ sessionId, name: 'Speed', description: '', type: 'benefit', weight: 1 });
+      await maker.addOption({ sessionId, name: 'Postgres' });
+      await maker.addOption({ sessionId, name: 'Oracle' });
+
+      const result = await analyzer.validateLogic({ sessionId });
+
+      expect(result.data.dominance).toBeNull();
+      expect(result.data.warnings).toEqual([]);
+    });
+  });
+});
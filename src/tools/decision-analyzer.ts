@@ -1,15 +1,19 @@
 import { v4 as uuidv4 } from 'uuid';
+import { scoringService } from '../services/scoring.js';
+import { groupAggregationService } from '../services/group-aggregation.js';
+import { weightElicitationService } from '../services/weight-elicitation.js';
 
 export class DecisionAnalyzerTool {
   private sessions: Map<string, any> = new Map();
 
-  constructor() {
+  // Looks up sessions owned by another tool, e.g. DecisionMakerTool
+  constructor(private sessionProvider?: (sessionId: string) => Promise<any>) {
     // Simple in-memory storage
   }
 
   async analyzeBias(params: any): Promise<any> {
     try {
-      const session = this.sessions.get(params.sessionId);
+      const session = await this.findSession(params.sessionId);
       if (!session) {
         return { success: false, error: 'Session not found' };
       }
@@ -38,18 +42,57 @@ export class DecisionAnalyzerTool {
 
   async validateLogic(params: any): Promise<any> {
     try {
-      const session = this.sessions.get(params.sessionId);
+      const session = await this.findSession(params.sessionId);
       if (!session) {
         return { success: false, error: 'Session not found' };
       }
 
+      const warnings: string[] = [];
+      const recommendations = ['Ensure all criteria are clearly defined', 'Verify option completeness'];
+
+      // Dominated options can never rank first under any weighting
+      let dominance = null;
+      // Measured values score options too, so a session scored only by measurements is checked as well
+      const hasScores = session.evaluations?.length > 0
+        || session.options?.some((o: any) => session.criteria?.some((c: any) => scoringService.getMeasuredValue(o, c) !== null));
+      if (session.criteria?.length > 0 && session.options?.length > 1 && hasScores) {
+        dominance = scoringService.analyzeDominance({
+          criteria: session.criteria,
+          options: session.options,
+          evaluations: groupAggregationService.aggregateScores(session.evaluations, session.analysis?.aggregation)
+        });
+        warnings.push(...dominance.warnings);
+        if (dominance.dominated.length > 0) {
+          recommendations.push(`Drop dominated options from review: ${dominance.dominated.map(d => d.name).join(', ')}`);
+        }
+      }
+
+      // Scoring uses weights as given, so an unnormalised set silently shifts the results
+      if (session.criteria?.length > 0) {
+        const { total, normalised } = weightElicitationService.checkNormalisation(session.criteria);
+        if (!normalised) {
+          warnings.push(`Criterion weights sum to ${total}, not 1`);
+          recommendations.push('Normalise the weights or derive them with elicit_weights (swing, rank_order_centroid or pairwise)');
+        }
+      }
+      const derivation = session.weightDerivation;
+      if (derivation?.modifiedAfter) {
+        warnings.push(`Weights were edited by hand after ${derivation.method} elicitation`);
+      }
+      if (derivation?.consistencyRatio !== undefined && derivation.consistencyRatio > 0.1) {
+        warnings.push(`Pairwise weight comparisons are inconsistent (CR ${derivation.consistencyRatio} > 0.1)`);
+        recommendations.push('Revisit the pairwise comparisons that contradict each other and elicit weights again');
+      }
+
       const logicValidation = {
         id: uuidv4(),
         sessionId: params.sessionId,
         isValid: true,
         issues: [],
+        warnings,
         strengths: ['Clear criteria defined', 'Multiple options considered'],
-        recommendations: ['Ensure all criteria are clearly defined', 'Verify option completeness'],
+        recommendations,
+        dominance,
         createdAt: new Date()
       };
 
@@ -67,7 +110,7 @@ export class DecisionAnalyzerTool {
 
   async assessRisks(params: any): Promise<any> {
     try {
-      const session = this.sessions.get(params.sessionId);
+      const session = await this.findSession(params.sessionId);
       if (!session) {
         return { success: false, error: 'Session not found' };
       }
@@ -96,7 +139,7 @@ export class DecisionAnalyzerTool {
 
   async generateAlternatives(params: any): Promise<any> {
     try {
-      const session = this.sessions.get(params.sessionId);
+      const session = await this.findSession(params.sessionId);
       if (!session) {
         return { success: false, error: 'Session not found' };
       }
@@ -132,7 +175,7 @@ export class DecisionAnalyzerTool {
 
   async comprehensiveAnalysis(params: any): Promise<any> {
     try {
-      const session = this.sessions.get(params.sessionId);
+      const session = await this.findSession(params.sessionId);
       if (!session) {
         return { success: false, error: 'Session not found' };
       }
@@ -160,4 +203,8 @@ export class DecisionAnalyzerTool {
       };
     }
   }
+
+  private async findSession(sessionId: string): Promise<any> {
+    return this.sessions.get(sessionId) || (this.sessionProvider ? await this.sessionProvider(sessionId) : undefined);
+  }
 }
\ No newline at end of file
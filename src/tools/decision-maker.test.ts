@@ -0,0 +1,443 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { DecisionMakerTool } from './decision-maker.js';
+
+describe('DecisionMakerTool', () => {
+  let tool: DecisionMakerTool;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    tool = new DecisionMakerTool();
+    sessionId = (await tool.startDecision({ context: 'Choose a database' })).data.id;
+  });
+
+  describe('startDecision', () => {
+    it('seeds criteria and next steps from a template', async () => {
+      const session = (await tool.startDecision({ context: 'Hire a backend engineer', templateId: 'hiring' })).data;
+
+      expect(session.template).toMatchObject({ id: 'hiring', source: 'built_in' });
+      expect(session.criteria.find((c: any) => c.name === 'Compensation')).toMatchObject({ weight: 0.15, type: 'cost', measure: 'estimatedCost' });
+    });
+
+    it('lists the available templates when one is not found', async () => {
+      const result = await tool.startDecision({ context: 'Move offices', templateId: 'office-move' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/^Template not found: office-move\. Available templates: .*database-choice/);
+    });
+  });
+
+  describe('deadlines', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2030-01-01T00:00:00Z') });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('rejects a deadline that is malformed or already past and warns about a distant one', async () => {
+      expect((await tool.startDecision({ context: 'Choose a database', deadline: 'soon' })).error)
+        .toBe('Invalid deadline: soon. Use an ISO 8601 date such as 2025-06-30');
+      expect((await tool.startDecision({ context: 'Choose a database', deadline: '2029-12-31' })).error).toBe('Deadline must be in the future');
+      expect((await tool.startDecision({ context: 'Choose a database', deadline: '2032-01-01' })).warnings).toEqual(['Date range is longer than a year']);
+    });
+
+    it('flags a session as overdue once its deadline passes without a recommendation', async () => {
+      const deadlined = (await tool.startDecision({ context: 'Choose a database', deadline: '2030-01-02T12:00:00Z' })).data.id;
+      const status = async () => (await tool.listSessions()).data.find((s: any) => s.id === deadlined).deadlineStatus;
+
+      expect(await status()).toEqual({ timeRemaining: '1 day(s) 12 hour(s)', hoursRemaining: 36, overdue: false });
+
+      jest.setSystemTime(new Date('2030-01-03T00:00:00Z'));
+      expect(await status()).toEqual({ timeRemaining: '12 hour(s) 0 minute(s)', hoursRemaining: -12, overdue: true });
+    });
+
+    it('recommends on current information and lists only pairs neither evaluated nor measured', async () => {
+      sessionId = (await tool.startDecision({ context: 'Choose a database', deadline: '2030-01-02T00:00:00Z' })).data.id;
+      await tool.addCriteria({ sessionId, name: 'Cost', type: 'cost', weight: 0.5, measure: 'estimatedCost' });
+      await tool.addCriteria({ sessionId, name: 'Speed', type: 'benefit', weight: 0.5 });
+      for (const [name, estimatedCost] of [['A', 10], ['B', 20], ['C', 30]] as const) {
+        await tool.addOption({ sessionId, name, estimatedCost });
+      }
+      await tool.evaluateOption({ sessionId, optionId: 'A', scores: [{ criteriaId: 'Speed', score: 7 }] });
+      await tool.evaluateOption({ sessionId, optionId: 'B', scores: [{ criteriaId: 'Speed', score: 6 }] });
+      await tool.analyzeDecision({ sessionId });
+
+      jest.setSystemTime(new Date('2030-01-03T00:00:00Z'));
+      const recommendation = await tool.makeRecommendation({ sessionId });
+
+      expect(recommendation.data.reasoning).toMatch(/^Best decision with current information: the deadline passed 1 day\(s\) 0 hour\(s\) ago with 1 evaluation\(s\) missing\./);
+      expect(recommendation.data.bestWithCurrentInformation.missingEvaluations).toEqual([
+        expect.objectContaining({ option: 'C', criterion: 'Speed', autoScored: false })
+      ]);
+    });
+  });
+
+  describe('addOption', () => {
+    it('defaults missing pros, cons and risks to empty lists', async () => {
+      const result = await tool.addOption({ sessionId, name: 'Postgres' });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ name: 'Postgres', description: '', pros: [], cons: [], risks: [] });
+    });
+
+    it('rejects an option without a name or with malformed fields', async () => {
+      expect(await tool.addOption({ sessionId, pros: [] })).toEqual({ success: false, error: 'Invalid option: name Required' });
+      expect(await tool.addOption({ sessionId, name: '  ' })).toEqual({ success: false, error: 'Invalid option: name is required' });
+      expect((await tool.addOption({ sessionId, name: 'Redis', pros: 'fast' })).error).toBe('Invalid option: pros Expected array, received string');
+      expect((await tool.getSession(sessionId)).data.options).toEqual([]);
+    });
+
+    it('reports a missing session', async () => {
+      expect(await tool.addOption({ sessionId: 'missing', name: 'Postgres' })).toEqual({ success: false, error: 'Session not found' });
+    });
+  });
+
+  describe('addCriteria', () => {
+    it('validates name, type and weight', async () => {
+      expect((await tool.addCriteria({ sessionId, type: 'benefit', weight: 0.5 })).error).toBe('Invalid criterion: name Required');
+      expect((await tool.addCriteria({ sessionId, name: 'Speed', type: 'fast', weight: 0.5 })).error).toContain('type Invalid enum value');
+      expect((await tool.addCriteria({ sessionId, name: 'Speed', type: 'benefit', weight: 2 })).error).toContain('weight Number must be less than or equal to 1');
+    });
+  });
+
+  describe('updateCriteria and updateOption', () => {
+    it('merges valid updates into the stored criterion and option', async () => {
+      await tool.addCriteria({ sessionId, name: 'Speed', description: '', type: 'benefit', weight: 0.5 });
+      await tool.addOption({ sessionId, name: 'Postgres' });
+
+      const criterion = await tool.updateCriteria({ sessionId, criterionId: 'Speed', updates: { weight: 0.8 } });
+      const option = await tool.updateOption({ sessionId, optionId: 'Postgres', updates: { name: ' PostgreSQL ', pros: ['Mature'] } });
+
+      expect(criterion.data).toMatchObject({ name: 'Speed', type: 'benefit', weight: 0.8 });
+      expect(option.data).toMatchObject({ name: 'PostgreSQL', pros: ['Mature'], cons: [] });
+    });
+
+    it('rejects an update that would leave the item malformed and keeps it unchanged', async () => {
+      await tool.addCriteria({ sessionId, name: 'Speed', description: '', type: 'benefit', weight: 0.5 });
+      await tool.addOption({ sessionId, name: 'Postgres' });
+
+      const criterion = await tool.updateCriteria({ sessionId, criterionId: 'Speed', updates: { weight: 2, type: 'fast' } });
+      const option = await tool.updateOption({ sessionId, optionId: 'Postgres', updates: { risks: 'lock-in' } });
+      const renamed = await tool.updateOption({ sessionId, optionId: 'Postgres', updates: { name: ' ' } });
+      const session = (await tool.getSession(sessionId)).data;
+
+      expect(criterion.error).toContain('weight Number must be less than or equal to 1');
+      expect(criterion.error).toContain('type Invalid enum value');
+      expect(option.error).toBe('Invalid option: risks Expected array, received string');
+      expect(renamed.error).toBe('Invalid option: name is required');
+      expect(session.criteria[0]).toMatchObject({ weight: 0.5, type: 'benefit' });
+      expect(session.options[0]).toMatchObject({ name: 'Postgres', risks: [] });
+    });
+  });
+
+  describe('elicitWeights', () => {
+    beforeEach(async () => {
+      // Weights are left for elicitation to set
+      await tool.addCriteria({ sessionId, name: 'Cost', type: 'cost' });
+      await tool.addCriteria({ sessionId, name: 'Speed', type: 'benefit' });
+    });
+
+    it('sets the weights and records how they were derived', async () => {
+      const result = await tool.elicitWeights({ sessionId, method: 'rank_order_centroid', ranking: ['speed', 'cost'] });
+      const session = (await tool.getSession(sessionId)).data;
+
+      expect(result.data.weights.map((w: any) => [w.name, w.weight, w.previousWeight])).toEqual([['Cost', 0.25, 0], ['Speed', 0.75, 0]]);
+      expect(session.weightDerivation).toMatchObject({ method: 'rank_order_centroid', inputs: [2, 1] });
+      expect(session.weightDerivation.modifiedAfter).toBeUndefined();
+    });
+
+    it('flags the derivation once a weight is edited by hand', async () => {
+      await tool.elicitWeights({ sessionId, method: 'swing', swings: [{ criterionId: 'Cost', points: 100 }, { criterionId: 'Speed', points: 60 }] });
+      await tool.updateCriteria({ sessionId, criterionId: 'Cost', updates: { weight: 0.5 } });
+
+      expect((await tool.getSession(sessionId)).data.weightDerivation.modifiedAfter).toBe(true);
+    });
+
+    it('reports missing ratings and unknown methods', async () => {
+      expect((await tool.elicitWeights({ sessionId, method: 'swing', swings: [{ criterionId: 'Cost', points: 100 }] })).error)
+        .toBe('Failed to elicit weights: Missing swing rating for Speed');
+      expect((await tool.elicitWeights({ sessionId, method: 'guess' })).error)
+        .toBe('Unknown elicitation method: guess. Use one of: swing, rank_order_centroid, pairwise');
+    });
+  });
+
+  describe('value functions', () => {
+    const latency = { type: 'linear', worst: 200, best: 50 };
+
+    beforeEach(async () => {
+      await tool.addOption({ sessionId, name: 'Postgres' });
+      await tool.addOption({ sessionId, name: 'MySQL' });
+    });
+
+    it('scores measured values through the criterion value function', async () => {
+      const criterion = (await tool.addCriteria({ sessionId, name: 'Latency', type: 'cost', weight: 1, valueFunction: latency })).data;
+      await tool.updateOption({ sessionId, optionId: 'Postgres', updates: { measurements: { [criterion.id]: 80 } } });
+      await tool.updateOption({ sessionId, optionId: 'MySQL', updates: { measurements: { [criterion.id]: 140 } } });
+      await tool.addCriteria({ sessionId, name: 'Support', type: 'benefit', weight: 1 });
+      for (const name of ['Postgres', 'MySQL']) {
+        await tool.evaluateOption({ sessionId, optionId: name, scores: [{ criteriaId: 'Support', score: 5, reasoning: '' }] });
+      }
+
+      const analysis = await tool.analyzeDecision({ sessionId });
+
+      expect(analysis.data.rankings.map((r: any) => [r.name, r.score])).toEqual([['Postgres', 6.5], ['MySQL', 4.5]]);
+      expect(analysis.data.insights).toContain('Scores for Latency were mapped from measured values through their value functions');
+    });
+
+    it('rejects a malformed value function', async () => {
+      const result = await tool.addCriteria({ sessionId, name: 'Latency', type: 'cost', weight: 1, valueFunction: { type: 'linear', worst: 5, best: 5 } });
+
+      expect(result.error).toBe('Failed to add criterion: linear value function needs different worst and best values');
+      expect((await tool.addCriteria({ sessionId, name: 'Latency', type: 'cost', weight: 1, valueFunction: { type: 'linear' } })).error)
+        .toBe('Failed to add criterion: Invalid value function: worst Required, best Required');
+    });
+
+    it('clears the value function when updated with null', async () => {
+      await tool.addCriteria({ sessionId, name: 'Latency', type: 'cost', weight: 1, valueFunction: latency });
+
+      const result = await tool.updateCriteria({ sessionId, criterionId: 'Latency', updates: { valueFunction: null } });
+
+      expect(result.data.valueFunction).toBeUndefined();
+      expect(result.data.name).toBe('Latency');
+    });
+  });
+
+  describe('editing an analysed session', () => {
+    beforeEach(async () => {
+      await tool.addCriteria({ sessionId, name: 'Speed', description: '', type: 'benefit', weight: 1 });
+      for (const [name, score] of [['Postgres', 8], ['MySQL', 6]] as const) {
+        await tool.addOption({ sessionId, name });
+        await tool.evaluateOption({ sessionId, optionId: name, scores: [{ criteriaId: 'Speed', score, reasoning: '' }] });
+      }
+      await tool.analyzeDecision({ sessionId });
+      await tool.analyzeSensitivity({ sessionId });
+      await tool.makeRecommendation({ sessionId });
+    });
+
+    it('discards the stale analysis and reopens the decision', async () => {
+      await tool.updateOption({ sessionId, optionId: 'Postgres', updates: { description: 'Managed' } });
+      const session = (await tool.getSession(sessionId)).data;
+
+      expect(session.status).toBe('evaluating');
+      expect(session.analysis).toBeUndefined();
+      expect(session.sensitivity).toBeUndefined();
+      expect(await tool.makeRecommendation({ sessionId })).toEqual({
+        success: false,
+        error: 'No analysis found. Please analyze the decision first.'
+      });
+    });
+
+    it('removes the scores of a removed option', async () => {
+      const result = await tool.removeOption({ sessionId, optionId: 'MySQL' });
+      const session = (await tool.getSession(sessionId)).data;
+
+      expect(result.data.invalidatedEvaluations).toBe(1);
+      expect(session.evaluations.map((e: any) => e.optionId)).toEqual([session.options[0].id]);
+    });
+  });
+
+  describe('analyzeDecision', () => {
+    it('ranks with AHP option judgements given in session order', async () => {
+      await tool.addCriteria({ sessionId, name: 'Speed', description: '', type: 'benefit', weight: 1 });
+      for (const name of ['A', 'B', 'C']) {
+        const option = (await tool.addOption({ sessionId, name })).data;
+        await tool.evaluateOption({ sessionId, optionId: option.id, scores: [{ criteriaId: 'Speed', score: 5, reasoning: '' }] });
+      }
+
+      const pairwiseComparisons = { options: { Speed: [[1, 1, 1 / 7], [1, 1, 1 / 7], [7, 7, 1]] } };
+      const analysis = await tool.analyzeDecision({ sessionId, method: 'ahp', pairwiseComparisons });
+      const comparison = await tool.compareMethods({ sessionId, pairwiseComparisons });
+
+      expect(analysis.data.rankings[0].name).toBe('C');
+      expect(comparison.data.methods.map((m: any) => m.method)).toEqual(['weighted_sum', 'weighted_product', 'topsis', 'ahp', 'promethee']);
+    });
+
+    it('applies AHP option matrices in session order after a constraint eliminates an option', async () => {
+      await tool.addCriteria({ sessionId, name: 'Speed', description: '', type: 'benefit', weight: 1 });
+      for (const [name, estimatedCost] of [['A', 10], ['B', 100], ['C', 30]] as const) {
+        await tool.addOption({ sessionId, name, estimatedCost });
+        await tool.evaluateOption({ sessionId, optionId: name, scores: [{ criteriaId: 'Speed', score: 5, reasoning: '' }] });
+      }
+      await tool.addConstraint({ sessionId, type: 'max_cost', value: 50 });
+
+      const pairwiseComparisons = { options: { Speed: [[1, 1, 1 / 7], [1, 1, 1 / 7], [7, 7, 1]] } };
+      const analysis = await tool.analyzeDecision({ sessionId, method: 'ahp', pairwiseComparisons });
+      expect(analysis.data.rankings.map((r: any) => r.name)).toEqual(['C', 'A']);
+      expect(analysis.data.constraints.eliminated.map((e: any) => e.name)).toEqual(['B']);
+
+      // Sensitivity and Monte Carlo reuse the judgements of the last analysis
+      const sensitivity = await tool.analyzeSensitivity({ sessionId });
+      const simulation = await tool.runMonteCarlo({ sessionId, iterations: 20, seed: 1 });
+      expect(sensitivity.data.topOption.name).toBe('C');
+      expect(simulation.data.options.find((o: any) => o.name === 'C').probabilityBest).toBe(1);
+    });
+
+    it('makes no ranking when every option is eliminated', async () => {
+      await tool.addCriteria({ sessionId, name: 'Speed', description: '', type: 'benefit', weight: 1 });
+      await tool.addOption({ sessionId, name: 'A', estimatedCost: 100 });
+      await tool.evaluateOption({ sessionId, optionId: 'A', scores: [{ criteriaId: 'Speed', score: 5, reasoning: '' }] });
+      await tool.addConstraint({ sessionId, type: 'max_cost', value: 50 });
+
+      const analysis = await tool.analyzeDecision({ sessionId });
+
+      expect(analysis.data.rankings).toEqual([]);
+      expect(analysis.data.constraints.allEliminated).toBe(true);
+      expect((await tool.makeRecommendation({ sessionId })).success).toBe(false);
+    });
+  });
+
+  describe('analyzeSensitivity', () => {
+    it('reuses the judgements of the last AHP analysis', async () => {
+      await tool.addCriteria({ sessionId, name: 'Speed', description: '', type: 'benefit', weight: 0.5 });
+      await tool.addCriteria({ sessionId, name: 'Quality', description: '', type: 'benefit', weight: 0.5 });
+      for (const name of ['A', 'B']) {
+        const option = (await tool.addOption({ sessionId, name })).data;
+        await tool.evaluateOption({ sessionId, optionId: option.id, scores: [{ criteriaId: 'Speed', score: 5, reasoning: '' }, { criteriaId: 'Quality', score: 5, reasoning: '' }] });
+      }
+
+      await tool.analyzeDecision({ sessionId, method: 'ahp', pairwiseComparisons: { criteria: [[1, 3], [1 / 3, 1]] } });
+      const sensitivity = await tool.analyzeSensitivity({ sessionId });
+
+      expect(sensitivity.data.method).toBe('ahp');
+      expect(sensitivity.data.criteria.map((c: any) => c.baseWeight)).toEqual([0.75, 0.25]);
+    });
+  });
+
+  describe('scenarios', () => {
+    it('adds the scenario rules to the recommendation', async () => {
+      await tool.addCriteria({ sessionId, name: 'Speed', description: '', type: 'benefit', weight: 1 });
+      await tool.addScenario({ sessionId, name: 'Boom' });
+      await tool.addScenario({ sessionId, name: 'Bust' });
+      for (const [name, score, boom, bust] of [['Postgres', 8, 50, 40], ['Oracle', 6, 100, 0]] as const) {
+        await tool.addOption({ sessionId, name });
+        await tool.evaluateOption({ sessionId, optionId: name, scores: [{ criteriaId: 'Speed', score, reasoning: '' }] });
+        await tool.setPayoffs({ sessionId, optionId: name, payoffs: [{ scenarioId: 'Boom', payoff: boom }, { scenarioId: 'Bust', payoff: bust }] });
+      }
+
+      await tool.analyzeDecision({ sessionId });
+      const recommendation = await tool.makeRecommendation({ sessionId });
+
+      expect(recommendation.data.scenarioAnalysis.preferredByRule).toMatchObject({ maximin: 'Postgres', maximax: 'Oracle' });
+      expect(recommendation.data.reasoning).toContain('Across scenarios, Postgres is preferred by Maximin (pessimist)');
+    });
+
+    it('rejects payoffs for an unknown scenario without changing the session', async () => {
+      await tool.addScenario({ sessionId, name: 'Boom' });
+      await tool.addOption({ sessionId, name: 'Postgres' });
+
+      const result = await tool.setPayoffs({
+        sessionId,
+        optionId: 'Postgres',
+        payoffs: [{ scenarioId: 'Boom', payoff: 10 }, { scenarioId: 'Recession', payoff: 0 }]
+      });
+
+      expect(result.error).toBe('Scenario not found: Recession');
+      expect((await tool.getSession(sessionId)).data.payoffs).toEqual([]);
+    });
+  });
+
+  describe('Delphi rounds', () => {
+    beforeEach(async () => {
+      await tool.addCriteria({ sessionId, name: 'Speed', description: '', type: 'benefit', weight: 1 });
+      await tool.addOption({ sessionId, name: 'Postgres' });
+      await tool.addOption({ sessionId, name: 'Oracle' });
+      await tool.startDelphi({ sessionId, maxRounds: 3 });
+    });
+
+    const submit = (evaluatorId: string, optionId: string, score: number) =>
+      tool.submitDelphiScores({ sessionId, evaluatorId, optionId, scores: [{ criteriaId: 'Speed', score, reasoning: '' }] });
+
+    it('opens another round until several participants have scored every option', async () => {
+      await submit('ann', 'Postgres', 7);
+      await submit('ann', 'Oracle', 5);
+      const lone = await tool.closeDelphiRound({ sessionId });
+
+      expect(lone.data).toMatchObject({ status: 'collecting', participants: 1, nextRound: 2 });
+
+      await submit('ann', 'Postgres', 7);
+      await submit('bob', 'Postgres', 7);
+      const partial = await tool.closeDelphiRound({ sessionId });
+
+      expect(partial.data.nextRound).toBe(3);
+      expect(partial.data.insights).toContain('1 estimate(s) have no scores yet: Oracle / Speed');
+    });
+
+    it('uses the consensus medians once the round converges', async () => {
+      await submit('ann', 'Postgres', 8);
+      await submit('bob', 'Postgres', 7);
+      await submit('ann', 'Oracle', 4);
+      await submit('bob', 'Oracle', 5);
+      const closed = await tool.closeDelphiRound({ sessionId });
+      const analysis = await tool.analyzeDecision({ sessionId });
+
+      expect(closed.data).toMatchObject({ status: 'converged', participants: 2, missingPairs: [], nextRound: null });
+      expect(analysis.data.rankings[0]).toMatchObject({ name: 'Postgres' });
+    });
+  });
+
+  describe('evaluateOption', () => {
+    it('matches options and criteria by name and replaces an earlier score', async () => {
+      await tool.addCriteria({ sessionId, name: 'Speed', description: '', type: 'benefit', weight: 1 });
+      await tool.addOption({ sessionId, name: 'Postgres' });
+
+      await tool.evaluateOption({ sessionId, optionId: 'postgres', scores: [{ criteriaId: 'speed', score: 4, reasoning: '' }] });
+      await tool.evaluateOption({ sessionId, optionId: 'Postgres', scores: [{ criteriaId: 'Speed', score: 8, reasoning: '' }] });
+      const session = await tool.getSession(sessionId);
+
+      expect(session.data.evaluations.map((e: any) => e.score)).toEqual([0.8]);
+    });
+
+    it('rejects unknown and repeated criteria without storing any score', async () => {
+      await tool.addCriteria({ sessionId, name: 'Speed', description: '', type: 'benefit', weight: 1 });
+      await tool.addOption({ sessionId, name: 'Postgres' });
+
+      const unknown = await tool.evaluateOption({ sessionId, optionId: 'Postgres', scores: [{ criteriaId: 'Price', score: 4, reasoning: '' }] });
+      const repeated = await tool.evaluateOption({
+        sessionId,
+        optionId: 'Postgres',
+        scores: [{ criteriaId: 'Speed', score: 4, reasoning: '' }, { criteriaId: 'Speed', score: 6, reasoning: '' }]
+      });
+      const session = await tool.getSession(sessionId);
+
+      expect(unknown.error).toBe('Unknown criterion: Price');
+      expect(repeated.error).toBe('Criterion Speed is scored more than once');
+      expect(session.data.evaluations).toEqual([]);
+    });
+
+    it('scores a distribution by its expected value and rejects malformed ones', async () => {
+      await tool.addCriteria({ sessionId, name: 'Speed', description: '', type: 'benefit', weight: 1 });
+      const option = (await tool.addOption({ sessionId, name: 'Postgres' })).data;
+
+      const accepted = await tool.evaluateOption({
+        sessionId,
+        optionId: option.id,
+        scores: [{ criteriaId: 'Speed', distribution: { type: 'triangular', min: 3, mostLikely: 6, max: 9 }, reasoning: '' }]
+      });
+      const rejected = await tool.evaluateOption({
+        sessionId,
+        optionId: option.id,
+        scores: [{ criteriaId: 'Speed', distribution: { type: 'triangular', min: 6, mostLikely: 3, max: 9 }, reasoning: '' }]
+      });
+
+      expect(accepted.data[0].score).toBeCloseTo(0.6);
+      expect(rejected.success).toBe(false);
+      expect(rejected.error).toMatch(/^Invalid score distribution for criterion Speed/);
+    });
+
+    it('rejects a hand score on a pair scored from measurements', async () => {
+      await tool.addCriteria({ sessionId, name: 'Cost', description: '', type: 'cost', weight: 1, measure: 'estimatedCost' });
+      const measured = (await tool.addOption({ sessionId, name: 'Postgres', estimatedCost: 100 })).data;
+      const unmeasured = (await tool.addOption({ sessionId, name: 'Oracle' })).data;
+
+      const rejected = await tool.evaluateOption({ sessionId, optionId: measured.id, scores: [{ criteriaId: 'Cost', score: 7, reasoning: '' }] });
+      const accepted = await tool.evaluateOption({ sessionId, optionId: unmeasured.id, scores: [{ criteriaId: 'Cost', score: 7, reasoning: '' }] });
+
+      expect(rejected).toEqual({
+        success: false,
+        error: 'Criterion Cost is scored from measurements for option Postgres; update the measurement instead'
+      });
+      expect(accepted.success).toBe(true);
+    });
+  });
+});
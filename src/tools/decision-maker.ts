@@ -1,7 +1,27 @@
 import { v4 as uuidv4 } from 'uuid';
+import type { z } from 'zod';
+import { scoringService, type ScoringInput } from '../services/scoring.js';
+import { SCORING_METHODS, SCORING_METHOD_LABELS, type PairwiseComparisons } from '../services/mcda.js';
+import { simulationService } from '../services/simulation.js';
+import { heuristicEvaluator } from '../services/heuristic-evaluator.js';
+import { constraintService, type ConstraintResult } from '../services/constraints.js';
+import { scenarioAnalysisService } from '../services/scenario-analysis.js';
+import { groupAggregationService, SCORE_AGGREGATIONS, type ScoreAggregation } from '../services/group-aggregation.js';
+import { collaborationService } from '../services/collaboration.js';
+import { delphiService } from '../services/delphi.js';
+import { retrospectiveService } from '../services/retrospective.js';
+import { SUCCESS_RATING_THRESHOLD, type CalibrationPoint } from '../services/calibration.js';
+import { templateService } from '../services/templates.js';
+import { parseDurationToDays } from '../utils/analysis.js';
+import { validateDateRange } from '../utils/validation.js';
+import { valueFunctionService } from '../services/value-functions.js';
+import { weightElicitationService, WEIGHT_ELICITATION_METHODS } from '../services/weight-elicitation.js';
+import { CriteriaSchema, OptionSchema, ScoreDistributionSchema, ValueFunctionSchema, type ValueFunction } from '../types/decision-types.js';
 
 export class DecisionMakerTool {
   private sessions: Map<string, any> = new Map();
+  // Delphi pseudonyms per session, kept off the session so rounds stay anonymous
+  private delphiParticipants: Map<string, Map<string, string>> = new Map();
 
   constructor() {
     // Simple in-memory storage
@@ -9,17 +29,54 @@ export class DecisionMakerTool {
 
   async startDecision(params: any): Promise<any> {
     try {
+      const template = params.templateId ? templateService.getTemplate(params.templateId) : null;
+      if (params.templateId && !template) {
+        const available = templateService.listTemplates().templates.map(t => t.id);
+        return { success: false, error: `Template not found: ${params.templateId}. Available templates: ${available.join(', ') || 'none'}` };
+      }
+
+      const createdAt = new Date();
+      const warnings: string[] = [];
+      let deadline: Date | null = null;
+      if (params.deadline) {
+        deadline = new Date(params.deadline);
+        if (isNaN(deadline.getTime())) {
+          return { success: false, error: `Invalid deadline: ${params.deadline}. Use an ISO 8601 date such as 2025-06-30` };
+        }
+        const range = validateDateRange(createdAt, deadline);
+        if (!range.isValid) {
+          return { success: false, error: 'Deadline must be in the future' };
+        }
+        // The session starts now, so only the length of the time box is worth reporting
+        warnings.push(...range.warnings.filter(warning => !warning.startsWith('Start date')));
+      }
+
       const sessionId = uuidv4();
       const session = {
         id: sessionId,
         context: params.context,
-        criteria: [],
+        deadline,
+        template: template
+          ? {
+              id: template.id,
+              name: template.name,
+              source: template.source,
+              contextPrompts: template.contextPrompts,
+              constraintSuggestions: template.constraintSuggestions,
+              requiredEvidence: template.requiredEvidence
+            }
+          : null,
+        criteria: (template?.criteria || []).map(criterion => ({ id: uuidv4(), ...criterion })),
         options: [],
         evaluations: [],
+        constraints: [],
+        scenarios: [],
+        payoffs: [],
+        outcomes: [],
         analysis: null,
         recommendation: null,
-        createdAt: new Date(),
-        updatedAt: new Date(),
+        createdAt,
+        updatedAt: createdAt,
         status: 'active'
       };
 
@@ -27,7 +84,8 @@ export class DecisionMakerTool {
 
       return {
         success: true,
-        data: session
+        data: session,
+        ...(warnings.length > 0 && { warnings })
       };
     } catch (error) {
       return {
@@ -44,16 +102,26 @@ export class DecisionMakerTool {
         return { success: false, error: 'Session not found' };
       }
 
-      const criterion = {
+      const valueFunction = this.parseValueFunction(params.valueFunction);
+
+      // Weight may be left for elicit_weights to set
+      const parsed = CriteriaSchema.safeParse({
         id: uuidv4(),
-        name: params.name,
-        description: params.description,
-        weight: params.weight,
-        type: params.type
-      };
+        name: typeof params.name === 'string' ? params.name.trim() : params.name,
+        description: params.description ?? '',
+        weight: params.weight ?? 0,
+        type: params.type,
+        measure: params.measure,
+        valueFunction
+      });
+      if (!parsed.success || !parsed.data.name) {
+        return { success: false, error: `Invalid criterion: ${this.describeIssues(parsed, 'name is required')}` };
+      }
 
+      const criterion = parsed.data;
       session.criteria.push(criterion);
-      session.updatedAt = new Date();
+      this.markWeightsEdited(session);
+      this.markInputsChanged(session);
       this.sessions.set(params.sessionId, session);
 
       return {
@@ -75,19 +143,25 @@ export class DecisionMakerTool {
         return { success: false, error: 'Session not found' };
       }
 
-      const option = {
+      // Heuristic scoring reads pros, cons and risks, so they must be lists
+      const parsed = OptionSchema.safeParse({
         id: uuidv4(),
-        name: params.name,
-        description: params.description,
-        pros: params.pros,
-        cons: params.cons,
-        risks: params.risks,
+        name: typeof params.name === 'string' ? params.name.trim() : params.name,
+        description: params.description ?? '',
+        pros: params.pros ?? [],
+        cons: params.cons ?? [],
+        risks: params.risks ?? [],
         estimatedCost: params.estimatedCost,
-        estimatedTime: params.estimatedTime
-      };
+        estimatedTime: params.estimatedTime,
+        measurements: params.measurements
+      });
+      if (!parsed.success || !parsed.data.name) {
+        return { success: false, error: `Invalid option: ${this.describeIssues(parsed, 'name is required')}` };
+      }
 
+      const option = parsed.data;
       session.options.push(option);
-      session.updatedAt = new Date();
+      this.markInputsChanged(session);
       this.sessions.set(params.sessionId, session);
 
       return {
@@ -102,127 +176,1538 @@ export class DecisionMakerTool {
     }
   }
 
-  async evaluateOption(params: any): Promise<any> {
+  async addConstraint(params: any): Promise<any> {
     try {
       const session = this.sessions.get(params.sessionId);
       if (!session) {
         return { success: false, error: 'Session not found' };
       }
 
-      const option = session.options.find((o: any) => o.id === params.optionId);
-      if (!option) {
-        return { success: false, error: 'Option not found' };
+      const constraint = {
+        id: uuidv4(),
+        description: params.description || `${String(params.type).replace('_', ' ')} ${params.value}`,
+        type: params.type,
+        value: params.value,
+        target: params.target
+      };
+      constraintService.validateConstraint(constraint);
+
+      session.constraints.push(constraint);
+      this.markInputsChanged(session);
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: constraint
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to add constraint: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async removeConstraint(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
       }
 
-      const evaluations: any[] = [];
-      for (let i = 0; i < session.criteria.length && i < params.scores.length; i++) {
-        const criterion = session.criteria[i];
-        const score = params.scores[i];
+      const constraint = session.constraints.find((c: any) => c.id === params.constraintId || c.description === params.constraintId);
+      if (!constraint) {
+        return { success: false, error: `Constraint not found: ${params.constraintId}` };
+      }
 
-        const evaluation = {
-          id: uuidv4(),
-          optionId: params.optionId,
-          criterionId: criterion.id,
-          score: score.score / 10,
-          rationale: score.reasoning
+      session.constraints = session.constraints.filter((c: any) => c.id !== constraint.id);
+      this.markInputsChanged(session);
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: { removed: constraint }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to remove constraint: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async addCollaborator(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      if (!params.id || !params.name) {
+        return { success: false, error: 'Collaborator id and name are required' };
+      }
+
+      // The first collaborator on a decision becomes its owner
+      const collaboration = collaborationService.getCollaborationSession(params.sessionId);
+      if (!collaboration) {
+        const created = collaborationService.createCollaborativeSession(params.sessionId, 'decision', params.id, params.name);
+        return {
+          success: true,
+          data: created.collaborators[0]
         };
+      }
 
-        evaluations.push(evaluation);
+      const result = collaborationService.addCollaborator(
+        params.sessionId,
+        params.id,
+        params.name,
+        params.role === 'viewer' ? 'viewer' : 'editor',
+        collaboration.ownerId
+      );
+      if (!result.success) {
+        return { success: false, error: result.error };
       }
 
-      session.evaluations.push(...evaluations);
-      session.updatedAt = new Date();
+      return {
+        success: true,
+        data: result.collaborator
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to add collaborator: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async addScenario(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      if (!params.name || this.findByIdOrName(session.scenarios, params.name)) {
+        return { success: false, error: `Scenario name must be unique and non-empty: ${params.name}` };
+      }
+
+      const scenario = {
+        id: uuidv4(),
+        name: params.name,
+        description: params.description
+      };
+
+      session.scenarios.push(scenario);
+      this.markInputsChanged(session);
       this.sessions.set(params.sessionId, session);
 
       return {
         success: true,
-        data: evaluations
+        data: scenario
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to evaluate option: ${error instanceof Error ? error.message : 'Unknown error'}`
+        error: `Failed to add scenario: ${error instanceof Error ? error.message : 'Unknown error'}`
       };
     }
   }
 
-  async analyzeDecision(params: any): Promise<any> {
+  async removeScenario(params: any): Promise<any> {
     try {
       const session = this.sessions.get(params.sessionId);
       if (!session) {
         return { success: false, error: 'Session not found' };
       }
 
-      if (session.evaluations.length === 0) {
-        return { success: false, error: 'No evaluations found. Please evaluate options first.' };
+      const scenario = this.findByIdOrName(session.scenarios, params.scenarioId);
+      if (!scenario) {
+        return { success: false, error: `Scenario not found: ${params.scenarioId}` };
       }
 
-      const analysis = {
-        id: uuidv4(),
-        sessionId: params.sessionId,
-        optionScores: {},
-        bestOption: null,
-        worstOption: null,
-        scoreRange: { highest: 0, lowest: 0, average: 0 },
-        insights: ['Analysis completed successfully'],
-        alternatives: [],
-        createdAt: new Date()
+      const payoffCount = session.payoffs.length;
+      session.scenarios = session.scenarios.filter((s: any) => s.id !== scenario.id);
+      session.payoffs = session.payoffs.filter((p: any) => p.scenarioId !== scenario.id);
+
+      this.markInputsChanged(session);
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: {
+          removed: scenario,
+          removedPayoffs: payoffCount - session.payoffs.length
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to remove scenario: ${error instanceof Error ? error.message : 'Unknown error'}`
       };
+    }
+  }
 
-      session.analysis = analysis;
-      session.updatedAt = new Date();
+  async setPayoffs(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      const option = this.findByIdOrName(session.options, params.optionId);
+      if (!option) {
+        return { success: false, error: `Option not found: ${params.optionId}` };
+      }
+
+      // Resolve every scenario before changing anything so a bad entry leaves the session untouched
+      const resolved = [];
+      for (const entry of params.payoffs || []) {
+        const scenario = this.findByIdOrName(session.scenarios, entry.scenarioId);
+        if (!scenario) {
+          return { success: false, error: `Scenario not found: ${entry.scenarioId}` };
+        }
+        if (typeof entry.payoff !== 'number' || !Number.isFinite(entry.payoff)) {
+          return { success: false, error: `Payoff for scenario ${scenario.name} must be a number` };
+        }
+        resolved.push({ optionId: option.id, scenarioId: scenario.id, payoff: entry.payoff });
+      }
+
+      const replaced = new Set(resolved.map(p => p.scenarioId));
+      session.payoffs = session.payoffs
+        .filter((p: any) => !(p.optionId === option.id && replaced.has(p.scenarioId)))
+        .concat(resolved);
+
+      this.markInputsChanged(session);
       this.sessions.set(params.sessionId, session);
 
       return {
         success: true,
-        data: analysis
+        data: session.payoffs.filter((p: any) => p.optionId === option.id)
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to analyze decision: ${error instanceof Error ? error.message : 'Unknown error'}`
+        error: `Failed to set payoffs: ${error instanceof Error ? error.message : 'Unknown error'}`
       };
     }
   }
 
-  async makeRecommendation(params: any): Promise<any> {
+  async updateCriteria(params: any): Promise<any> {
     try {
       const session = this.sessions.get(params.sessionId);
       if (!session) {
         return { success: false, error: 'Session not found' };
       }
 
-      if (!session.analysis) {
-        return { success: false, error: 'No analysis found. Please analyze the decision first.' };
+      const criterion = this.findByIdOrName(session.criteria, params.criterionId);
+      if (!criterion) {
+        return { success: false, error: `Criterion not found: ${params.criterionId}` };
       }
 
-      const recommendation = {
-        id: uuidv4(),
-        sessionId: params.sessionId,
-        recommendedOption: session.options[0] || null,
-        confidence: 0.8,
-        reasoning: 'Based on analysis of criteria and options',
-        risks: [],
-        nextSteps: ['Review recommendation', 'Validate assumptions', 'Create implementation plan'],
-        createdAt: new Date()
+      // Validate the merged criterion so a bad update leaves the stored one untouched
+      const updated = this.mergeUpdates(criterion, params.updates, ['name', 'description', 'weight', 'type', 'measure']);
+      const valueFunction = this.parseValueFunction(params.updates?.valueFunction);
+      // null clears the value function and restores min-max normalisation
+      if (params.updates?.valueFunction === null) {
+        delete updated.valueFunction;
+      } else if (valueFunction) {
+        updated.valueFunction = valueFunction;
+      }
+      const parsed = CriteriaSchema.safeParse(updated);
+      if (!parsed.success || !parsed.data.name) {
+        return { success: false, error: `Invalid criterion: ${this.describeIssues(parsed, 'name is required')}` };
+      }
+      if (!parsed.data.valueFunction) {
+        delete criterion.valueFunction;
+      }
+      Object.assign(criterion, parsed.data);
+      if (params.updates?.weight !== undefined) {
+        this.markWeightsEdited(session);
+      }
+
+      this.markInputsChanged(session);
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: criterion
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update criterion: ${error instanceof Error ? error.message : 'Unknown error'}`
       };
+    }
+  }
 
-      session.recommendation = recommendation;
-      session.updatedAt = new Date();
+  async removeCriteria(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      const criterion = this.findByIdOrName(session.criteria, params.criterionId);
+      if (!criterion) {
+        return { success: false, error: `Criterion not found: ${params.criterionId}` };
+      }
+
+      const evaluationCount = session.evaluations.length;
+      session.criteria = session.criteria.filter((c: any) => c.id !== criterion.id);
+      session.evaluations = session.evaluations.filter((e: any) => e.criterionId !== criterion.id);
+      if (session.delphi?.consensus) {
+        session.delphi.consensus = session.delphi.consensus.filter((e: any) => e.criterionId !== criterion.id);
+      }
+      this.markWeightsEdited(session);
+
+      this.markInputsChanged(session);
       this.sessions.set(params.sessionId, session);
 
       return {
         success: true,
-        data: recommendation
+        data: {
+          removed: criterion,
+          invalidatedEvaluations: evaluationCount - session.evaluations.length
+        }
       };
     } catch (error) {
       return {
         success: false,
-        error: `Failed to make recommendation: ${error instanceof Error ? error.message : 'Unknown error'}`
+        error: `Failed to remove criterion: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async elicitWeights(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      if (!WEIGHT_ELICITATION_METHODS.includes(params.method)) {
+        return { success: false, error: `Unknown elicitation method: ${params.method}. Use one of: ${WEIGHT_ELICITATION_METHODS.join(', ')}` };
+      }
+      if (session.criteria.length < 2) {
+        return { success: false, error: 'Add at least two criteria before eliciting weights' };
+      }
+
+      // Inputs are stored in criteria order so the derivation can be replayed
+      let inputs: number[] | number[][];
+      let result;
+      if (params.method === 'swing') {
+        const unknown = (params.swings || []).find((s: any) => !this.findByIdOrName(session.criteria, s.criterionId));
+        if (unknown) {
+          throw new Error(`Criterion not found: ${unknown.criterionId}`);
+        }
+        const points = session.criteria.map((criterion: any) => {
+          const entry = (params.swings || []).find((s: any) => this.findByIdOrName([criterion], s.criterionId));
+          if (!entry) {
+            throw new Error(`Missing swing rating for ${criterion.name}`);
+          }
+          return entry.points;
+        });
+        inputs = points;
+        result = weightElicitationService.swing(session.criteria, points);
+      } else if (params.method === 'rank_order_centroid') {
+        const ranked = (params.ranking || []).map((key: string) => {
+          const criterion = this.findByIdOrName(session.criteria, key);
+          if (!criterion) {
+            throw new Error(`Criterion not found: ${key}`);
+          }
+          return criterion.id;
+        });
+        const ranks = session.criteria.map((criterion: any) => ranked.indexOf(criterion.id));
+        inputs = ranks.map((rank: number) => rank + 1);
+        result = weightElicitationService.rankOrderCentroid(session.criteria, ranks);
+      } else {
+        inputs = params.comparisons || [];
+        result = weightElicitationService.pairwise(session.criteria, inputs as number[][]);
+      }
+
+      result.weights.forEach(({ criterionId, weight }) => {
+        session.criteria.find((c: any) => c.id === criterionId).weight = weight;
+      });
+      session.weightDerivation = {
+        method: result.method,
+        inputs,
+        criteriaIds: session.criteria.map((c: any) => c.id),
+        ...(result.consistencyRatio !== null && { consistencyRatio: result.consistencyRatio }),
+        derivedAt: new Date()
+      };
+
+      this.markInputsChanged(session);
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: {
+          ...result,
+          derivation: session.weightDerivation
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to elicit weights: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async updateOption(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      const option = this.findByIdOrName(session.options, params.optionId);
+      if (!option) {
+        return { success: false, error: `Option not found: ${params.optionId}` };
+      }
+
+      const updated = this.mergeUpdates(
+        option,
+        params.updates,
+        ['name', 'description', 'pros', 'cons', 'risks', 'estimatedCost', 'estimatedTime', 'measurements']
+      );
+      const parsed = OptionSchema.safeParse(updated);
+      if (!parsed.success || !parsed.data.name) {
+        return { success: false, error: `Invalid option: ${this.describeIssues(parsed, 'name is required')}` };
+      }
+      Object.assign(option, parsed.data);
+
+      this.markInputsChanged(session);
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: option
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to update option: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async removeOption(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      const option = this.findByIdOrName(session.options, params.optionId);
+      if (!option) {
+        return { success: false, error: `Option not found: ${params.optionId}` };
+      }
+
+      const evaluationCount = session.evaluations.length;
+      session.options = session.options.filter((o: any) => o.id !== option.id);
+      session.evaluations = session.evaluations.filter((e: any) => e.optionId !== option.id);
+      session.payoffs = (session.payoffs || []).filter((p: any) => p.optionId !== option.id);
+      if (session.delphi?.consensus) {
+        session.delphi.consensus = session.delphi.consensus.filter((e: any) => e.optionId !== option.id);
+      }
+
+      this.markInputsChanged(session);
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: {
+          removed: option,
+          invalidatedEvaluations: evaluationCount - session.evaluations.length
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to remove option: ${error instanceof Error ? error.message : 'Unknown error'}`
       };
     }
   }
 
+  async removeEvaluation(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      const option = this.findByIdOrName(session.options, params.optionId);
+      if (!option) {
+        return { success: false, error: `Option not found: ${params.optionId}` };
+      }
+
+      // Without a criterion, every score for the option is removed
+      let criterion: any = null;
+      if (params.criterionId) {
+        criterion = this.findByIdOrName(session.criteria, params.criterionId);
+        if (!criterion) {
+          return { success: false, error: `Criterion not found: ${params.criterionId}` };
+        }
+      }
+
+      // An evaluator ID limits removal to that evaluator's scores
+      const evaluationCount = session.evaluations.length;
+      session.evaluations = session.evaluations.filter(
+        (e: any) => !(e.optionId === option.id
+          && (!criterion || e.criterionId === criterion.id)
+          && (!params.evaluatorId || e.evaluatorId === params.evaluatorId))
+      );
+      const removed = evaluationCount - session.evaluations.length;
+
+      if (removed > 0) {
+        this.markInputsChanged(session);
+      }
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: { removedEvaluations: removed }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to remove evaluation: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async evaluateOption(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      const option = this.findByIdOrName(session.options, params.optionId);
+      if (!option) {
+        return { success: false, error: `Option not found: ${params.optionId}` };
+      }
+
+      // In a collaborative session only owners and editors may score
+      const evaluatorId = params.evaluatorId;
+      const collaboration = collaborationService.getCollaborationSession(params.sessionId);
+      if (evaluatorId && collaboration) {
+        const collaborator = collaboration.collaborators.find(c => c.id === evaluatorId);
+        if (!collaborator) {
+          return { success: false, error: `Evaluator ${evaluatorId} is not a collaborator on this session` };
+        }
+        if (collaborator.role === 'viewer') {
+          return { success: false, error: `Evaluator ${collaborator.name} has view-only access` };
+        }
+        collaborationService.updateCollaboratorActivity(params.sessionId, evaluatorId);
+      }
+
+      // Validate every score before touching the session so a bad entry changes nothing
+      const evaluations: any[] = [];
+      const seen = new Set<string>();
+      for (const score of params.scores || []) {
+        if (!score.criteriaId) {
+          return { success: false, error: 'Each score requires a criteriaId (criterion ID or name)' };
+        }
+
+        const criterion = this.findByIdOrName(session.criteria, score.criteriaId);
+        if (!criterion) {
+          return { success: false, error: `Unknown criterion: ${score.criteriaId}` };
+        }
+        if (seen.has(criterion.id)) {
+          return { success: false, error: `Criterion ${criterion.name} is scored more than once` };
+        }
+        seen.add(criterion.id);
+        // A measurement always takes precedence, so a hand score here would be silently ignored
+        if (scoringService.getMeasuredValue(option, criterion) !== null) {
+          return { success: false, error: `Criterion ${criterion.name} is scored from measurements for option ${option.name}; update the measurement instead` };
+        }
+
+        let distribution;
+        if (score.distribution) {
+          const parsed = ScoreDistributionSchema.safeParse(score.distribution);
+          if (!parsed.success) {
+            return {
+              success: false,
+              error: `Invalid score distribution for criterion ${criterion.name}: ${parsed.error.issues.map(issue => issue.message).join(', ')}`
+            };
+          }
+          distribution = parsed.data;
+        }
+        const pointScore = score.score ?? (distribution ? simulationService.expectedValue(distribution) : undefined);
+        if (pointScore === undefined) {
+          return { success: false, error: `Score or distribution required for criterion ${criterion.name}` };
+        }
+        if (pointScore < 0 || pointScore > 10) {
+          return { success: false, error: `Score for criterion ${criterion.name} must be between 0 and 10` };
+        }
+
+        const evaluation = {
+          id: uuidv4(),
+          optionId: option.id,
+          criterionId: criterion.id,
+          score: pointScore / 10,
+          distribution,
+          rationale: score.reasoning,
+          evaluatorId
+        };
+
+        evaluations.push(evaluation);
+      }
+
+      // Re-evaluating a criterion replaces the same evaluator's previous score, and any heuristic one, for this option
+      session.evaluations = session.evaluations.filter(
+        (e: any) => !(e.optionId === option.id && seen.has(e.criterionId) && (e.evaluatorId === evaluatorId || e.autoGenerated))
+      );
+      session.evaluations.push(...evaluations);
+      this.markInputsChanged(session);
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: evaluations
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to evaluate option: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async autoEvaluate(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      // Only fill option/criterion pairs nobody has scored yet
+      const scored = new Set(session.evaluations.map((e: any) => `${e.optionId}:${e.criterionId}`));
+      const evaluations = heuristicEvaluator
+        .evaluate(session.criteria, session.options)
+        .filter(score => !scored.has(`${score.optionId}:${score.criterionId}`))
+        .map(score => ({
+          id: uuidv4(),
+          optionId: score.optionId,
+          criterionId: score.criterionId,
+          score: score.score / 10,
+          rationale: score.reasoning,
+          autoGenerated: true
+        }));
+
+      session.evaluations.push(...evaluations);
+      if (evaluations.length > 0) {
+        this.markInputsChanged(session);
+      }
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: evaluations
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to auto-evaluate options: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async analyzeDecision(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      if (!this.hasScores(session)) {
+        return { success: false, error: 'No evaluations found. Please evaluate options first.' };
+      }
+
+      const aggregation = params.aggregation || 'mean';
+      if (!SCORE_AGGREGATIONS.includes(aggregation)) {
+        return { success: false, error: `Unknown aggregation: ${aggregation}. Use one of ${SCORE_AGGREGATIONS.join(', ')}` };
+      }
+
+      const { input, constraints } = this.buildScoringInput(session, aggregation);
+      if (constraints.allEliminated) {
+        const analysis = {
+          id: uuidv4(),
+          sessionId: params.sessionId,
+          method: params.method || 'weighted_sum',
+          aggregation,
+          optionScores: {},
+          rankings: [],
+          bestOption: null,
+          worstOption: null,
+          constraints,
+          insights: constraints.warnings,
+          alternatives: [],
+          createdAt: new Date()
+        };
+        session.analysis = analysis;
+        session.updatedAt = new Date();
+        this.sessions.set(params.sessionId, session);
+        return { success: true, data: analysis };
+      }
+
+      const result = scoringService.scoreOptions(input, params.method || 'weighted_sum', this.withOptionOrder(session, params.pairwiseComparisons));
+      const dominance = scoringService.analyzeDominance(input);
+      const evaluators = groupAggregationService.evaluatorIds(session.evaluations.filter((e: any) => !e.autoGenerated));
+
+      const analysis = {
+        id: uuidv4(),
+        sessionId: params.sessionId,
+        method: result.method,
+        aggregation,
+        evaluators,
+        scoreScale: result.scoreScale,
+        optionScores: result.optionScores,
+        rankings: result.rankings,
+        bestOption: result.bestOption,
+        worstOption: result.worstOption,
+        scoreRange: result.scoreRange,
+        coverage: result.coverage,
+        autoGeneratedShare: result.autoGeneratedShare,
+        methodDetails: result.methodDetails,
+        // Kept so sensitivity and Monte Carlo analysis rank with the same judgements
+        pairwiseComparisons: params.pairwiseComparisons,
+        dominance,
+        constraints,
+        insights: [...constraints.warnings, ...result.insights, ...dominance.warnings],
+        alternatives: params.includeAlternatives ? result.rankings.slice(1) : [],
+        createdAt: new Date()
+      };
+
+      session.analysis = analysis;
+      session.updatedAt = new Date();
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: analysis
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to analyze decision: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async makeRecommendation(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      if (!session.analysis) {
+        return { success: false, error: 'No analysis found. Please analyze the decision first.' };
+      }
+
+      const { rankings, coverage, method, scoreScale, autoGeneratedShare } = session.analysis;
+      if (session.analysis.constraints?.allEliminated) {
+        return { success: false, error: 'All options were eliminated by constraints; relax a constraint or add options' };
+      }
+
+      const top = rankings[0];
+      if (!top) {
+        return { success: false, error: 'No ranked options available for recommendation' };
+      }
+
+      const recommendedOption = session.options.find((o: any) => o.id === top.optionId) || null;
+      const confidence = scoringService.calculateConfidence(rankings, coverage, scoreScale, autoGeneratedShare);
+      const minConfidence = params.minConfidence ?? 0;
+      const runnerUp = rankings[1];
+
+      let reasoning = `${top.name} ranks first under ${SCORING_METHOD_LABELS[method as keyof typeof SCORING_METHOD_LABELS]} (score ${top.score})`;
+      if (runnerUp) {
+        reasoning += `, ahead of ${runnerUp.name} (${runnerUp.score})`;
+      }
+      if (confidence < minConfidence) {
+        reasoning += `. Confidence ${confidence} is below the requested minimum of ${minConfidence}`;
+      }
+
+      const delphi = session.delphi;
+      const delphiConsensus = delphi?.consensus?.length > 0
+        ? {
+            status: delphi.status,
+            rounds: delphi.rounds.length,
+            estimates: delphi.consensus.length,
+            converged: delphi.status === 'converged'
+          }
+        : null;
+      if (delphiConsensus) {
+        reasoning += `. ${delphiConsensus.estimates} score(s) reflect the Delphi consensus after ${delphiConsensus.rounds} round(s)`;
+        if (!delphiConsensus.converged) {
+          reasoning += ', which stopped at the round limit without full convergence';
+        }
+      }
+
+      // Past the deadline the decision is made anyway, on whatever has been scored
+      let bestWithCurrentInformation = null;
+      const deadlineStatus = this.deadlineStatus(session);
+      if (deadlineStatus && new Date(session.deadline).getTime() < Date.now()) {
+        const missingEvaluations = this.findMissingEvaluations(session);
+        if (missingEvaluations.length > 0) {
+          bestWithCurrentInformation = {
+            deadline: session.deadline,
+            overdueBy: deadlineStatus.timeRemaining,
+            missingEvaluations
+          };
+          reasoning = `Best decision with current information: the deadline passed ${deadlineStatus.timeRemaining} ago with ${missingEvaluations.length} evaluation(s) missing. ${reasoning}`;
+        }
+      }
+
+      // Without reliable probabilities, show how the choice depends on risk attitude
+      let scenarioAnalysis = null;
+      if (session.scenarios?.length > 0 && session.payoffs?.length > 0) {
+        const scenarioResult = await this.analyzeScenarios({ sessionId: params.sessionId, optimism: params.optimism });
+        if (scenarioResult.success) {
+          scenarioAnalysis = {
+            optimism: scenarioResult.data.optimism,
+            preferredByRule: Object.fromEntries(scenarioResult.data.rules.map((r: any) => [r.rule, r.bestOption?.name || null])),
+            robustOptions: scenarioResult.data.robustOptions,
+            optimismSwitchPoints: scenarioResult.data.optimismSwitchPoints,
+            insights: scenarioResult.data.insights
+          };
+          const agreeing = scenarioResult.data.rules.filter((r: any) => r.bestOption?.optionId === top.optionId);
+          reasoning += agreeing.length === scenarioResult.data.rules.length
+            ? `. ${top.name} is also preferred by every scenario rule, whatever the risk attitude`
+            : `. Across scenarios, ${top.name} is preferred by ${agreeing.length > 0 ? agreeing.map((r: any) => r.label).join(', ') : 'no decision rule'}`;
+        }
+      }
+
+      const recommendation = {
+        id: uuidv4(),
+        sessionId: params.sessionId,
+        method,
+        recommendedOption,
+        confidence,
+        meetsConfidenceThreshold: confidence >= minConfidence,
+        reasoning,
+        risks: recommendedOption?.risks || [],
+        alternatives: rankings.slice(1).map((r: any) => r.name),
+        eliminatedOptions: (session.analysis.constraints?.eliminated || []).map((e: any) => e.name),
+        scenarioAnalysis,
+        delphiConsensus,
+        bestWithCurrentInformation,
+        nextSteps: [
+          ...(session.template?.requiredEvidence || []).map((evidence: string) => `Gather evidence: ${evidence}`),
+          ...(bestWithCurrentInformation
+            ? [`Complete the ${bestWithCurrentInformation.missingEvaluations.length} missing evaluation(s) and re-analyze if the decision can still change`]
+            : []),
+          'Review recommendation',
+          'Validate assumptions',
+          'Create implementation plan'
+        ],
+        createdAt: new Date()
+      };
+
+      session.recommendation = recommendation;
+      session.status = 'completed';
+      session.updatedAt = new Date();
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: recommendation
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to make recommendation: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async startDelphi(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      if (session.criteria.length === 0 || session.options.length === 0) {
+        return { success: false, error: 'Add criteria and options before starting a Delphi process' };
+      }
+      if (session.delphi?.status === 'collecting') {
+        return { success: false, error: 'A Delphi process is already collecting scores for this session' };
+      }
+
+      session.delphi = {
+        status: 'collecting',
+        maxRounds: params.maxRounds ?? 3,
+        convergenceThreshold: params.convergenceThreshold ?? 1.5,
+        rounds: [{ round: 1, status: 'open', submissions: [], openedAt: new Date() }]
+      };
+      this.delphiParticipants.set(params.sessionId, new Map());
+      session.updatedAt = new Date();
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: session.delphi
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to start Delphi process: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async submitDelphiScores(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      if (session.delphi?.status !== 'collecting') {
+        return { success: false, error: 'No Delphi round is open for this session' };
+      }
+      if (!params.evaluatorId) {
+        return { success: false, error: 'evaluatorId is required to submit Delphi scores' };
+      }
+
+      const collaboration = collaborationService.getCollaborationSession(params.sessionId);
+      if (collaboration) {
+        const collaborator = collaboration.collaborators.find(c => c.id === params.evaluatorId);
+        if (!collaborator || collaborator.role === 'viewer') {
+          return { success: false, error: `Evaluator ${params.evaluatorId} may not submit scores on this session` };
+        }
+        collaborationService.updateCollaboratorActivity(params.sessionId, params.evaluatorId);
+      }
+
+      const option = this.findByIdOrName(session.options, params.optionId);
+      if (!option) {
+        return { success: false, error: `Option not found: ${params.optionId}` };
+      }
+
+      const submissions: any[] = [];
+      for (const score of params.scores || []) {
+        const criterion = this.findByIdOrName(session.criteria, score.criteriaId);
+        if (!criterion) {
+          return { success: false, error: `Unknown criterion: ${score.criteriaId}` };
+        }
+        if (typeof score.score !== 'number' || score.score < 0 || score.score > 10) {
+          return { success: false, error: `Score for criterion ${criterion.name} must be between 0 and 10` };
+        }
+        submissions.push({ criterionId: criterion.id, score: score.score, rationale: score.reasoning || '' });
+      }
+
+      const pseudonyms = this.delphiParticipants.get(params.sessionId) || new Map<string, string>();
+      if (!pseudonyms.has(params.evaluatorId)) {
+        pseudonyms.set(params.evaluatorId, `P${pseudonyms.size + 1}`);
+      }
+      this.delphiParticipants.set(params.sessionId, pseudonyms);
+      const participant = pseudonyms.get(params.evaluatorId) as string;
+
+      // A participant's new estimate replaces their earlier one within the same round
+      const round = session.delphi.rounds[session.delphi.rounds.length - 1];
+      const replaced = new Set(submissions.map(sub => sub.criterionId));
+      round.submissions = round.submissions
+        .filter((sub: any) => !(sub.participant === participant && sub.optionId === option.id && replaced.has(sub.criterionId)))
+        .concat(submissions.map(sub => ({ participant, optionId: option.id, ...sub, submittedAt: new Date() })));
+
+      session.updatedAt = new Date();
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: { round: round.round, participant, submitted: submissions.length }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to submit Delphi scores: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async closeDelphiRound(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      const delphi = session.delphi;
+      if (delphi?.status !== 'collecting') {
+        return { success: false, error: 'No Delphi round is open for this session' };
+      }
+
+      const round = delphi.rounds[delphi.rounds.length - 1];
+      if (round.submissions.length === 0) {
+        return { success: false, error: `Round ${round.round} has no submissions yet` };
+      }
+
+      const labels = Object.fromEntries([...session.options, ...session.criteria].map((item: any) => [item.id, item.name]));
+      const pairs = session.options.flatMap((o: any) => session.criteria.map((c: any) => ({ optionId: o.id, criterionId: c.id })));
+      const summary = delphiService.summarizeRound(round.submissions, delphi.convergenceThreshold, labels, pairs);
+
+      round.status = 'closed';
+      round.statistics = summary.statistics;
+      round.converged = summary.converged;
+      round.closedAt = new Date();
+
+      if (summary.converged || round.round >= delphi.maxRounds) {
+        // The last round's medians stand in for individual scores from here on
+        delphi.status = summary.converged ? 'converged' : 'round_limit_reached';
+        delphi.consensus = delphiService.buildConsensus(summary.statistics, round.round);
+        this.markInputsChanged(session);
+      } else {
+        delphi.rounds.push({ round: round.round + 1, status: 'open', submissions: [], openedAt: new Date() });
+        session.updatedAt = new Date();
+      }
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: {
+          round: round.round,
+          status: delphi.status,
+          statistics: summary.statistics,
+          agreementShare: summary.agreementShare,
+          participants: summary.participants,
+          missingPairs: summary.missingPairs,
+          insights: summary.insights,
+          nextRound: delphi.status === 'collecting' ? round.round + 1 : null
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to close Delphi round: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async recordOutcome(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      if (session.status !== 'completed' || !session.recommendation) {
+        return { success: false, error: 'Outcomes can only be recorded once the decision is completed' };
+      }
+
+      const option = params.optionId
+        ? this.findByIdOrName(session.options, params.optionId)
+        : session.recommendation.recommendedOption;
+      if (!option) {
+        return { success: false, error: `Option not found: ${params.optionId}` };
+      }
+
+      const outcome = params.outcome || {};
+      if (outcome.actualCost === undefined && outcome.actualTime === undefined && outcome.successRating === undefined && !outcome.notes) {
+        return { success: false, error: 'Record at least one of actualCost, actualTime, successRating or notes' };
+      }
+      if (outcome.successRating !== undefined && (typeof outcome.successRating !== 'number' || outcome.successRating < 0 || outcome.successRating > 10)) {
+        return { success: false, error: 'successRating must be between 0 and 10' };
+      }
+      if (outcome.actualCost !== undefined && (typeof outcome.actualCost !== 'number' || outcome.actualCost < 0)) {
+        return { success: false, error: 'actualCost must be a non-negative number' };
+      }
+      if (typeof outcome.actualTime === 'string' && parseDurationToDays(outcome.actualTime) === null) {
+        return { success: false, error: `actualTime must be a duration such as "4 months" or a number of days: ${outcome.actualTime}` };
+      }
+
+      const recorded = {
+        id: uuidv4(),
+        optionId: option.id,
+        actualCost: outcome.actualCost,
+        actualTime: outcome.actualTime,
+        successRating: outcome.successRating,
+        notes: outcome.notes,
+        recordedAt: new Date()
+      };
+
+      // Outcomes do not change the inputs, so a completed decision stays completed
+      session.outcomes = [...(session.outcomes || []), recorded];
+      session.updatedAt = new Date();
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: recorded
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to record outcome: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async generateRetrospective(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      // Rescale analysis scores to 0-10 so they read like success ratings
+      const { optionScores = {}, scoreScale } = session.analysis || {};
+      const span = scoreScale ? scoreScale.max - scoreScale.min : 0;
+      const predictedScores = Object.fromEntries(
+        Object.values(optionScores).map((entry: any) => [
+          entry.optionId,
+          span > 0 ? Math.round(((entry.score - scoreScale.min) / span) * 100) / 10 : entry.score
+        ])
+      );
+
+      const report = retrospectiveService.buildReport({
+        options: session.options,
+        outcomes: session.outcomes || [],
+        recommendedOptionId: session.recommendation?.recommendedOption?.id || null,
+        confidence: session.recommendation?.confidence ?? null,
+        predictedScores
+      });
+
+      return {
+        success: true,
+        data: {
+          sessionId: params.sessionId,
+          context: session.context,
+          recommendedOption: session.recommendation?.recommendedOption?.name || null,
+          decidedAt: session.recommendation?.createdAt || null,
+          ...report
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to generate retrospective: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async listTemplates(): Promise<any> {
+    try {
+      const { templates, errors } = templateService.listTemplates();
+      return {
+        success: true,
+        data: {
+          templates: templates.map(t => ({
+            id: t.id,
+            name: t.name,
+            description: t.description,
+            source: t.source,
+            criteria: t.criteria.map(c => ({ name: c.name, weight: c.weight, type: c.type })),
+            contextPrompts: t.contextPrompts,
+            constraintSuggestions: t.constraintSuggestions,
+            requiredEvidence: t.requiredEvidence
+          })),
+          errors
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to list templates: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async getCalibrationPoints(): Promise<any> {
+    try {
+      const points: CalibrationPoint[] = [];
+      this.sessions.forEach(session => {
+        const recommended = session.recommendation?.recommendedOption;
+        if (!recommended) return;
+
+        // Only a followed recommendation says anything about its confidence
+        const rated = (session.outcomes || []).filter((o: any) => o.optionId === recommended.id && o.successRating !== undefined);
+        const latest = rated[rated.length - 1];
+        if (!latest) return;
+
+        points.push({
+          sessionId: session.id,
+          source: 'decision',
+          confidence: session.recommendation.confidence,
+          outcome: latest.successRating >= SUCCESS_RATING_THRESHOLD ? 1 : 0,
+          statedAt: session.recommendation.createdAt
+        });
+      });
+
+      return {
+        success: true,
+        data: points
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to collect calibration data: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async analyzeScenarios(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      if (!session.scenarios?.length || !session.payoffs?.length) {
+        return { success: false, error: 'No scenario payoffs found. Please add scenarios and payoffs first.' };
+      }
+
+      const { input } = this.buildScoringInput(session);
+      const optimism = params.optimism ?? 0.5;
+      const analysis = scenarioAnalysisService.analyze(input.options, session.scenarios, session.payoffs, optimism);
+
+      session.scenarioAnalysis = {
+        ...analysis,
+        optimismSwitchPoints: scenarioAnalysisService.findOptimismSwitchPoints(input.options, session.scenarios, session.payoffs),
+        createdAt: new Date()
+      };
+      session.updatedAt = new Date();
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: session.scenarioAnalysis
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to analyze scenarios: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async analyzeGroup(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      if (session.evaluations.length === 0) {
+        return { success: false, error: 'No evaluations found. Please evaluate options first.' };
+      }
+
+      const { input: raw, constraints } = this.buildScoringInput(session);
+      if (constraints.allEliminated) {
+        return { success: false, error: 'All options were eliminated by constraints' };
+      }
+
+      // Rank-based strategies and the disagreement report need every evaluator's own scores
+      const input = { ...raw, evaluations: session.evaluations };
+      const scoreAggregations = Object.fromEntries(SCORE_AGGREGATIONS.map(strategy => {
+        const aggregated = { ...input, evaluations: groupAggregationService.aggregateScores(session.evaluations, strategy) };
+        return [strategy, scoringService.scoreOptions(aggregated, params.method || 'weighted_sum').rankings];
+      }));
+      const borda = groupAggregationService.aggregateRankings(input, 'borda');
+      const copeland = groupAggregationService.aggregateRankings(input, 'copeland');
+      const disagreement = groupAggregationService.analyzeDisagreement(input);
+
+      const winners = new Set([
+        ...Object.values(scoreAggregations).map((rankings: any) => rankings[0]?.name),
+        borda.rankings[0]?.name,
+        copeland.rankings[0]?.name
+      ].filter(Boolean));
+
+      session.groupAnalysis = {
+        evaluators: disagreement.evaluators,
+        scoreAggregations,
+        borda,
+        copeland,
+        disagreement,
+        agreement: winners.size <= 1,
+        insights: [
+          winners.size <= 1
+            ? 'Every aggregation strategy picks the same top option'
+            : `Aggregation strategies disagree: ${Array.from(winners).join(', ')} each rank first under some strategy`,
+          ...(copeland.condorcetWinner ? [`${copeland.condorcetWinner.name} is the Condorcet winner: a majority prefers it to every other option`] : []),
+          ...disagreement.insights
+        ],
+        createdAt: new Date()
+      };
+      session.updatedAt = new Date();
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: session.groupAnalysis
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to analyze group evaluations: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async analyzeSensitivity(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      if (!this.hasScores(session)) {
+        return { success: false, error: 'No evaluations found. Please evaluate options first.' };
+      }
+
+      const { input, constraints } = this.buildScoringInput(session);
+      if (constraints.allEliminated) {
+        return { success: false, error: 'All options were eliminated by constraints' };
+      }
+
+      const sensitivity = scoringService.analyzeSensitivity(
+        input,
+        params.method || session.analysis?.method || 'weighted_sum',
+        params.range,
+        params.step,
+        this.withOptionOrder(session, params.pairwiseComparisons || session.analysis?.pairwiseComparisons)
+      );
+
+      session.sensitivity = { ...sensitivity, createdAt: new Date() };
+      session.updatedAt = new Date();
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: session.sensitivity
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to analyze sensitivity: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async runMonteCarlo(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      if (!this.hasScores(session)) {
+        return { success: false, error: 'No evaluations found. Please evaluate options first.' };
+      }
+
+      const { input, constraints } = this.buildScoringInput(session);
+      if (constraints.allEliminated) {
+        return { success: false, error: 'All options were eliminated by constraints' };
+      }
+
+      const simulation = simulationService.runMonteCarlo(
+        input,
+        {
+          iterations: params.iterations,
+          seed: params.seed,
+          confidence: params.confidence,
+          method: params.method || session.analysis?.method,
+          comparisons: this.withOptionOrder(session, params.pairwiseComparisons || session.analysis?.pairwiseComparisons)
+        }
+      );
+
+      session.simulation = { ...simulation, createdAt: new Date() };
+      session.updatedAt = new Date();
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: session.simulation
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to run Monte Carlo analysis: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async compareMethods(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      if (!this.hasScores(session)) {
+        return { success: false, error: 'No evaluations found. Please evaluate options first.' };
+      }
+
+      const { input, constraints } = this.buildScoringInput(session);
+      if (constraints.allEliminated) {
+        return { success: false, error: 'All options were eliminated by constraints' };
+      }
+
+      const results = SCORING_METHODS.map(method => {
+        const result = scoringService.scoreOptions(input, method, this.withOptionOrder(session, params.pairwiseComparisons));
+        return {
+          method,
+          label: SCORING_METHOD_LABELS[method],
+          rankings: result.rankings,
+          bestOption: result.bestOption
+        };
+      });
+
+      const winners = new Set(results.map(r => r.bestOption?.optionId).filter(Boolean));
+
+      return {
+        success: true,
+        data: {
+          sessionId: params.sessionId,
+          methods: results,
+          agreement: winners.size <= 1,
+          insight: winners.size <= 1
+            ? 'All methods agree on the top-ranked option'
+            : `Methods disagree: ${winners.size} different options rank first`
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to compare methods: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  private buildScoringInput(
+    session: any,
+    aggregation: ScoreAggregation = session.analysis?.aggregation || 'mean'
+  ): { input: ScoringInput; constraints: Omit<ConstraintResult, 'eligibleOptions'> } {
+    // Options failing a hard constraint never reach the scoring methods
+    const { eligibleOptions, ...constraints } = constraintService.applyConstraints(session.constraints || [], session.options);
+
+    // A Delphi consensus overrides individual scores for the pairs it covers
+    const consensus = session.delphi?.consensus || [];
+    const covered = new Set(consensus.map((e: any) => `${e.optionId}:${e.criterionId}`));
+    const individual = session.evaluations.filter((e: any) => !covered.has(`${e.optionId}:${e.criterionId}`));
+
+    return {
+      input: {
+        criteria: session.criteria,
+        options: eligibleOptions,
+        // Several evaluators' scores for a pair are combined into one group score
+        evaluations: [...groupAggregationService.aggregateScores(individual, aggregation), ...consensus]
+      },
+      constraints
+    };
+  }
+
+  private markInputsChanged(session: any): void {
+    // A completed recommendation no longer reflects the inputs once they change
+    if (session.status === 'completed') {
+      session.status = 'evaluating';
+    } else if (session.status === 'active' && this.hasScores(session)) {
+      session.status = 'evaluating';
+    }
+    // Results computed from the old inputs must not be recommended from
+    delete session.analysis;
+    delete session.sensitivity;
+    delete session.simulation;
+    session.updatedAt = new Date();
+  }
+
+  private withOptionOrder(session: any, comparisons: PairwiseComparisons | undefined): PairwiseComparisons | undefined {
+    // Option matrices follow session order, whatever subset of the options is scored
+    return comparisons ? { ...comparisons, optionOrder: session.options.map((o: any) => o.id) } : undefined;
+  }
+
+  private mergeUpdates(item: any, updates: any, fields: string[]): any {
+    const merged = { ...item };
+    for (const field of fields) {
+      if (updates?.[field] !== undefined) {
+        merged[field] = updates[field];
+      }
+    }
+    if (typeof merged.name === 'string') {
+      merged.name = merged.name.trim();
+    }
+    return merged;
+  }
+
+  private describeIssues(parsed: { success: boolean; error?: z.ZodError }, fallback: string): string {
+    return parsed.error
+      ? parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`.trim()).join(', ')
+      : fallback;
+  }
+
+  private markWeightsEdited(session: any): void {
+    // Hand edits keep the derivation record but flag that the weights no longer match it
+    if (session.weightDerivation) {
+      session.weightDerivation.modifiedAfter = true;
+    }
+  }
+
+  private parseValueFunction(raw: unknown): ValueFunction | undefined {
+    if (raw === undefined || raw === null) {
+      return undefined;
+    }
+    const parsed = ValueFunctionSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(`Invalid value function: ${this.describeIssues(parsed, '')}`);
+    }
+    valueFunctionService.validate(parsed.data);
+    return parsed.data;
+  }
+
+  private hasScores(session: any): boolean {
+    return session.evaluations.length > 0 || session.delphi?.consensus?.length > 0;
+  }
+
+  private deadlineStatus(session: any): { timeRemaining: string; hoursRemaining: number; overdue: boolean } | null {
+    if (!session.deadline) {
+      return null;
+    }
+    const remaining = new Date(session.deadline).getTime() - Date.now();
+    return {
+      // Time since the deadline once it has passed
+      timeRemaining: this.formatDuration(Math.abs(remaining)),
+      hoursRemaining: Math.round((remaining / 3600000) * 10) / 10,
+      // A decision recommended in time is not overdue
+      overdue: remaining < 0 && session.status !== 'completed'
+    };
+  }
+
+  private findMissingEvaluations(session: any): { optionId: string; option: string; criterionId: string; criterion: string; autoScored: boolean }[] {
+    // Heuristic scores stand in for a missing evaluation rather than complete it
+    const matrix = scoringService.buildMatrix(this.buildScoringInput(session).input);
+    const scored = [...session.evaluations, ...(session.delphi?.consensus || [])];
+    return matrix.options.flatMap((option: any, i: number) => matrix.criteria
+      // Measured pairs are scored whether or not anyone evaluated them
+      .filter((criterion: any, j: number) => matrix.cells[i][j]?.source !== 'measurement'
+        && !scored.some((e: any) => e.optionId === option.id && e.criterionId === criterion.id && !e.autoGenerated))
+      .map((criterion: any) => ({
+        optionId: option.id,
+        option: option.name,
+        criterionId: criterion.id,
+        criterion: criterion.name,
+        autoScored: session.evaluations.some((e: any) => e.optionId === option.id && e.criterionId === criterion.id)
+      })));
+  }
+
+  private formatDuration(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    const days = Math.floor(minutes / 1440);
+    const hours = Math.floor((minutes % 1440) / 60);
+    if (days > 0) {
+      return `${days} day(s) ${hours} hour(s)`;
+    }
+    return hours > 0 ? `${hours} hour(s) ${minutes % 60} minute(s)` : `${minutes} minute(s)`;
+  }
+
+  private findByIdOrName(items: any[], key: string): any {
+    // Generated IDs are unknown to one-shot callers, so fall back to a case-insensitive name match
+    return items.find(item => item.id === key)
+      || items.find(item => typeof key === 'string' && item.name.toLowerCase() === key.trim().toLowerCase());
+  }
+
   async getSession(sessionId: string): Promise<any> {
     try {
       const session = this.sessions.get(sessionId);
@@ -244,7 +1729,8 @@ export class DecisionMakerTool {
 
   async listSessions(): Promise<any> {
     try {
-      const sessions = Array.from(this.sessions.values());
+      const sessions = Array.from(this.sessions.values())
+        .map(session => ({ ...session, deadlineStatus: this.deadlineStatus(session) }));
       return {
         success: true,
         data: sessions
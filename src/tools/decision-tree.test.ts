@@ -0,0 +1,32 @@
+import { describe, expect, it } from '@jest/globals';
+import { DecisionTreeTool } from './decision-tree.js';
+
+describe('DecisionTreeTool', () => {
+  describe('createTree', () => {
+    it('stores the analysed tree so it can be fetched and listed', async () => {
+      const tool = new DecisionTreeTool();
+      const created = await tool.createTree({
+        context: 'Pilot first?',
+        nodes: [
+          { id: 'root', type: 'decision', label: 'Pilot?' },
+          { id: 'pilot', type: 'terminal', label: 'Pilot', parentId: 'root', payoff: 20 },
+          { id: 'skip', type: 'terminal', label: 'Skip', parentId: 'root', payoff: 5 }
+        ]
+      });
+
+      expect(created.data.analysis.expectedValue).toBe(20);
+      expect((await tool.getSession(created.data.id)).data.rootId).toBe('root');
+      expect((await tool.listSessions()).data).toHaveLength(1);
+    });
+
+    it('reports malformed nodes by path', async () => {
+      const result = await new DecisionTreeTool().createTree({
+        context: 'Pilot first?',
+        nodes: [{ id: 'root', type: 'gamble', label: 'Pilot?' }]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/^Invalid decision tree nodes: 0\.type /);
+    });
+  });
+});
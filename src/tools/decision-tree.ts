@@ -0,0 +1,85 @@
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { decisionTreeService } from '../services/decision-tree.js';
+import { DecisionTreeNodeSchema } from '../types/decision-types.js';
+
+export class DecisionTreeTool {
+  private sessions: Map<string, any> = new Map();
+
+  constructor() {
+    // Simple in-memory storage
+  }
+
+  async createTree(params: any): Promise<any> {
+    try {
+      const parsed = z.array(DecisionTreeNodeSchema).safeParse(params.nodes || []);
+      if (!parsed.success) {
+        return {
+          success: false,
+          error: `Invalid decision tree nodes: ${parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join('; ')}`
+        };
+      }
+
+      const nodes = parsed.data;
+      const { rootId, ...analysis } = decisionTreeService.analyze(nodes);
+
+      const session = {
+        id: uuidv4(),
+        type: 'decision_tree',
+        context: params.context,
+        nodes,
+        rootId,
+        analysis: { ...analysis, createdAt: new Date() },
+        status: 'completed',
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      this.sessions.set(session.id, session);
+
+      return {
+        success: true,
+        data: session
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to create decision tree: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async getSession(sessionId: string): Promise<any> {
+    try {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        return { success: false, error: 'Session not found' };
+      }
+
+      return {
+        success: true,
+        data: session
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get session: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async listSessions(): Promise<any> {
+    try {
+      const sessions = Array.from(this.sessions.values());
+      return {
+        success: true,
+        data: sessions
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to list sessions: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+}
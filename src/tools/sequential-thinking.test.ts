@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { SequentialThinkingTool } from './sequential-thinking.js';
+
+describe('SequentialThinkingTool', () => {
+  let tool: SequentialThinkingTool;
+  let sessionId: string;
+
+  const think = async (thought: string, extra: Record<string, unknown> = {}) =>
+    (await tool.addThought({ sessionId, thought, ...extra })).data;
+
+  beforeEach(async () => {
+    tool = new SequentialThinkingTool();
+    sessionId = (await tool.startThinking({ problem: 'Why is checkout slow?' })).data.id;
+  });
+
+  describe('branches', () => {
+    it('follows the branch line from its branch point', async () => {
+      const root = await think('Checkout p95 doubled last week');
+      await think('The deploy on Monday changed the payment client');
+      const branch = (await tool.branchFromThought({ sessionId, thoughtId: root.id, newDirection: 'Look at the database instead' })).data;
+      const first = await think('Slow query log shows the orders table', { branchId: branch.id });
+      const second = await think('An index was dropped', { branchId: branch.id });
+
+      const line = (await tool.getBranch({ sessionId, branchId: branch.id })).data.lineOfReasoning;
+      const main = (await tool.getBranch({ sessionId })).data.lineOfReasoning;
+
+      expect(first).toMatchObject({ parentId: root.id, depth: 1 });
+      expect(second).toMatchObject({ parentId: first.id, depth: 2 });
+      expect(line.map((t: any) => t.content)).toEqual(['Checkout p95 doubled last week', 'Slow query log shows the orders table', 'An index was dropped']);
+      expect(main).toHaveLength(2);
+    });
+
+    it('only accepts thoughts on an exploring branch', async () => {
+      const root = await think('Checkout p95 doubled last week');
+      const branch = (await tool.branchFromThought({ sessionId, thoughtId: root.id, newDirection: 'Blame the CDN' })).data;
+
+      await tool.setBranchStatus({ sessionId, branchId: branch.id, status: 'abandoned', reason: 'CDN metrics are flat' });
+      const rejected = await tool.addThought({ sessionId, thought: 'Purge the cache', branchId: branch.id });
+      const [listed] = (await tool.listBranches({ sessionId })).data;
+
+      expect(rejected.error).toBe('Branch is abandoned; set it back to exploring to add thoughts');
+      expect(listed).toMatchObject({ status: 'abandoned', statusReason: 'CDN metrics are flat', thoughtCount: 0, latestThought: null });
+      expect((await tool.setBranchStatus({ sessionId, branchId: branch.id, status: 'parked' })).error)
+        .toBe('Branch status must be exploring, abandoned or adopted');
+    });
+
+    it('keeps a branch thought parented on the branch', async () => {
+      const root = await think('Checkout p95 doubled last week');
+      const other = await think('Traffic is flat');
+      const branch = (await tool.branchFromThought({ sessionId, thoughtId: root.id, newDirection: 'Look at the database' })).data;
+
+      const result = await tool.addThought({ sessionId, thought: 'Check indexes', branchId: branch.id, parentId: other.id });
+
+      expect(result.error).toBe('Parent thought must be on the branch or be its branch point');
+    });
+  });
+
+  describe('reviseThought', () => {
+    it('marks every thought built on the revision stale until it is revised itself', async () => {
+      const root = await think('Checkout p95 doubled last week');
+      const child = await think('The Monday deploy is the likely cause');
+      const grandchild = await think('Roll the deploy back');
+
+      const revised = await tool.reviseThought({ sessionId, thoughtId: root.id, newThought: 'Checkout p95 tripled since Monday', reason: 'New dashboard' });
+
+      expect(revised.data.markedStale.map((t: any) => t.id)).toEqual([child.id, grandchild.id]);
+      expect(child.stale).toMatchObject({ causedBy: root.id, revision: 2 });
+
+      await tool.reviseThought({ sessionId, thoughtId: child.id, newThought: 'The Monday deploy is the confirmed cause' });
+      expect(child.stale).toBeUndefined();
+      expect(grandchild.stale).toMatchObject({ causedBy: child.id });
+    });
+
+    it('keeps each revision and diffs them word by word', async () => {
+      const root = await think('Checkout p95 doubled last week', { author: 'ann' });
+      await tool.reviseThought({ sessionId, thoughtId: root.id, newThought: 'Checkout p95 tripled since Monday', author: 'bob' });
+
+      const history = (await tool.getThoughtHistory({ sessionId, thoughtId: root.id })).data;
+
+      expect(history.revisions.map((r: any) => [r.revision, r.author])).toEqual([[1, 'ann'], [2, 'bob']]);
+      expect(history.diff).toMatchObject({
+        fromRevision: 1,
+        toRevision: 2,
+        addedWords: 3,
+        removedWords: 3,
+        rendered: 'Checkout p95 [-doubled last week-] {+tripled since Monday+}'
+      });
+      expect((await tool.getThoughtHistory({ sessionId, thoughtId: root.id, fromRevision: 3 })).error).toBe('Revisions run from 1 to 2');
+      expect((await tool.reviseThought({ sessionId, thoughtId: root.id, newThought: 'Checkout p95 tripled since Monday' })).error)
+        .toBe('Revised content is the same as the current revision');
+    });
+  });
+
+  describe('argument graph', () => {
+    it('validates relations by the type of thought they point at', async () => {
+      const hypothesis = await think('The deploy caused it', { thoughtType: 'hypothesis' });
+      const evidence = await think('Latency rose at deploy time', { thoughtType: 'evidence' });
+
+      expect((await tool.relateThoughts({ sessionId, thoughtId: evidence.id, relations: [{ type: 'answers', targetId: hypothesis.id }] })).error)
+        .toBe('Failed to relate thoughts: answers must point at a question');
+      expect((await tool.relateThoughts({ sessionId, thoughtId: evidence.id, relations: [{ type: 'supports', targetId: evidence.id }] })).error)
+        .toBe('Failed to relate thoughts: A thought cannot relate to itself');
+      expect((await tool.addThought({ sessionId, thought: 'Hunch', thoughtType: 'guess' })).error)
+        .toBe('Failed to add thought: Invalid thought type: guess. Use hypothesis, evidence, assumption, question or counterargument');
+    });
+
+    it('reports open ends as next steps, ignoring abandoned branches', async () => {
+      const root = await think('Is the index missing?', { thoughtType: 'question' });
+      const branch = (await tool.branchFromThought({ sessionId, thoughtId: root.id, newDirection: 'CDN' })).data;
+      await think('The CDN is misconfigured', { thoughtType: 'hypothesis', branchId: branch.id });
+      await tool.setBranchStatus({ sessionId, branchId: branch.id, status: 'abandoned' });
+
+      const progress = (await tool.analyzeProgress({ sessionId })).data;
+
+      expect(progress.argument.untestedHypotheses).toEqual([]);
+      expect(progress.verdict).toBe('keep_thinking');
+      expect(progress.recommendations).toContain('Answer: Is the index missing?');
+      expect(progress.recommendations).not.toContain('Find evidence for or against: The CDN is misconfigured');
+    });
+
+    it('marks thoughts that rest on a revised assumption stale', async () => {
+      const root = await think('Checkout p95 doubled');
+      const assumption = await think('Traffic is stable', { thoughtType: 'assumption' });
+      // Follows the root rather than the assumption, so only the relation links them
+      const plan = await think('No need to scale', { parentId: root.id, relations: [{ type: 'assumes', targetId: assumption.id }] });
+
+      await tool.reviseThought({ sessionId, thoughtId: assumption.id, newThought: 'Traffic doubled on Black Friday' });
+
+      expect(plan.stale).toMatchObject({ causedBy: assumption.id });
+    });
+  });
+
+  describe('mergeBranches', () => {
+    let branchIds: string[];
+
+    beforeEach(async () => {
+      const root = await think('Checkout p95 doubled last week');
+      branchIds = [];
+      for (const [direction, conclusion] of [['Database', 'Restore the dropped index'], ['Application', 'Scale the payment workers']]) {
+        const branch = (await tool.branchFromThought({ sessionId, thoughtId: root.id, newDirection: direction })).data;
+        await think(conclusion, { branchId: branch.id });
+        branchIds.push(branch.id);
+      }
+    });
+
+    it('adds a synthesis thought on the main line and adopts both branches', async () => {
+      const merged = await tool.mergeBranches({ sessionId, branchIds });
+      const branches = (await tool.listBranches({ sessionId })).data;
+
+      expect(merged.data.thought.content).toBe(
+        'Synthesis of "Database", which concluded: Restore the dropped index; and "Application", which concluded: Scale the payment workers'
+      );
+      expect(merged.data.thought.branchId).toBeUndefined();
+      expect(merged.data.thought.mergedFrom.map((m: any) => m.branchId)).toEqual(branchIds);
+      expect(branches.map((b: any) => b.status)).toEqual(['adopted', 'adopted']);
+      expect(merged.data.comparison.divergedAt.content).toBe('Checkout p95 doubled last week');
+    });
+
+    it('rejects merging a branch into itself or a branch without thoughts', async () => {
+      const root = (await tool.getBranch({ sessionId })).data.lineOfReasoning[0];
+      const empty = (await tool.branchFromThought({ sessionId, thoughtId: root.id, newDirection: 'Network' })).data;
+
+      expect((await tool.mergeBranches({ sessionId, branchIds, branchId: branchIds[0] })).error).toBe('A branch cannot be merged into itself');
+      expect((await tool.mergeBranches({ sessionId, branchIds: [branchIds[0], empty.id] })).error).toBe('Branch "Network" has no thoughts to merge');
+      expect((await tool.mergeBranches({ sessionId, branchIds: [branchIds[0]] })).error).toBe('Give exactly two different branch IDs');
+    });
+  });
+});
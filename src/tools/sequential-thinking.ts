@@ -1,8 +1,14 @@
 import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import type { CalibrationPoint } from '../services/calibration.js';
+import { branchComparisonService, type BranchLine } from '../services/branch-comparison.js';
+import { nlpService } from '../services/nlp.js';
+import { argumentGraphService } from '../services/argument-graph.js';
+import { thinkingProgressService } from '../services/thinking-progress.js';
+import { ThoughtRelationSchema, ThoughtSchema, type Thought, type ThoughtRelation } from '../types/thinking-types.js';
 
 export class SequentialThinkingTool {
   private sessions: Map<string, any> = new Map();
-  private branches: Map<string, any> = new Map();
 
   constructor() {
     // Simple in-memory storage
@@ -49,18 +55,48 @@ export class SequentialThinkingTool {
         return { success: false, error: 'Maximum number of thoughts reached' };
       }
 
+      const branch = params.branchId ? session.branches.find((b: any) => b.id === params.branchId) : null;
+      if (params.branchId && !branch) {
+        return { success: false, error: 'Branch not found' };
+      }
+      if (branch && branch.status !== 'exploring') {
+        return { success: false, error: `Branch is ${branch.status}; set it back to exploring to add thoughts` };
+      }
+
+      // A thought follows the latest one on its line unless a parent is given
+      const parentId = params.parentId
+        ?? (branch ? (branch.thoughts[branch.thoughts.length - 1]?.id ?? branch.fromThoughtId) : this.mainLine(session).pop()?.id);
+      const parent = parentId ? session.thoughts.find((t: any) => t.id === parentId) : null;
+      if (parentId && !parent) {
+        return { success: false, error: 'Parent thought not found' };
+      }
+      if (branch && parent && parent.id !== branch.fromThoughtId && parent.branchId !== branch.id) {
+        return { success: false, error: 'Parent thought must be on the branch or be its branch point' };
+      }
+
+      const type = this.parseThoughtType(params.thoughtType);
+      const relations = this.parseRelations(session, null, params.relations);
+
+      const createdAt = new Date();
       const thought = {
         id: uuidv4(),
         sessionId: params.sessionId,
         content: params.thought,
-        parentId: params.parentId,
-        branchId: params.branchId,
-        depth: 0,
-        createdAt: new Date(),
-        updatedAt: new Date()
+        parentId: parent?.id,
+        branchId: branch?.id,
+        depth: parent ? parent.depth + 1 : 0,
+        type,
+        relations,
+        revisions: [{ revision: 1, content: params.thought, author: params.author, timestamp: createdAt }],
+        createdAt,
+        updatedAt: createdAt
       };
 
       session.thoughts.push(thought);
+      if (branch) {
+        branch.thoughts.push(thought);
+        branch.updatedAt = new Date();
+      }
       session.updatedAt = new Date();
       this.sessions.set(params.sessionId, session);
 
@@ -88,7 +124,56 @@ export class SequentialThinkingTool {
         return { success: false, error: 'Thought not found' };
       }
 
+      if (params.newThought === thought.content) {
+        return { success: false, error: 'Revised content is the same as the current revision' };
+      }
+
+      const revisedAt = new Date();
+      const revision = thought.revisions.length + 1;
+      thought.revisions.push({ revision, content: params.newThought, reason: params.reason, author: params.author, timestamp: revisedAt });
       thought.content = params.newThought;
+      // Revising a stale thought is how it gets re-examined
+      delete thought.stale;
+      thought.updatedAt = revisedAt;
+
+      const markedStale = this.dependents(session, thought.id);
+      markedStale.forEach(dependent => {
+        dependent.stale = { causedBy: thought.id, revision, since: revisedAt };
+      });
+
+      session.updatedAt = revisedAt;
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: {
+          thought,
+          markedStale: markedStale.map(dependent => ({ id: dependent.id, content: dependent.content }))
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to revise thought: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async relateThoughts(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Thinking session not found' };
+      }
+
+      const thought = session.thoughts.find((t: any) => t.id === params.thoughtId);
+      if (!thought) {
+        return { success: false, error: 'Thought not found' };
+      }
+
+      const relations = this.parseRelations(session, thought.id, params.relations);
+      const added = relations.filter(relation => !thought.relations.some((r: ThoughtRelation) => r.type === relation.type && r.targetId === relation.targetId));
+      thought.relations.push(...added);
       thought.updatedAt = new Date();
       session.updatedAt = new Date();
       this.sessions.set(params.sessionId, session);
@@ -100,7 +185,46 @@ export class SequentialThinkingTool {
     } catch (error) {
       return {
         success: false,
-        error: `Failed to revise thought: ${error instanceof Error ? error.message : 'Unknown error'}`
+        error: `Failed to relate thoughts: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async getThoughtHistory(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Thinking session not found' };
+      }
+
+      const thought = session.thoughts.find((t: any) => t.id === params.thoughtId);
+      if (!thought) {
+        return { success: false, error: 'Thought not found' };
+      }
+
+      const latest = thought.revisions.length;
+      const toRevision = params.toRevision ?? latest;
+      const fromRevision = params.fromRevision ?? Math.max(1, toRevision - 1);
+      const from = thought.revisions.find((r: any) => r.revision === fromRevision);
+      const to = thought.revisions.find((r: any) => r.revision === toRevision);
+      if (!from || !to) {
+        return { success: false, error: `Revisions run from 1 to ${latest}` };
+      }
+
+      return {
+        success: true,
+        data: {
+          thoughtId: thought.id,
+          currentRevision: latest,
+          revisions: thought.revisions,
+          stale: thought.stale ?? null,
+          diff: { fromRevision, toRevision, ...nlpService.diffWords(from.content, to.content) }
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get thought history: ${error instanceof Error ? error.message : 'Unknown error'}`
       };
     }
   }
@@ -120,16 +244,16 @@ export class SequentialThinkingTool {
       const branch = {
         id: uuidv4(),
         sessionId: params.sessionId,
-        parentThoughtId: params.thoughtId,
-        direction: params.direction,
-        description: params.description || '',
+        fromThoughtId: params.thoughtId,
+        description: params.description || params.newDirection,
+        // Shares thought objects with session.thoughts
         thoughts: [],
+        status: 'exploring',
         createdAt: new Date(),
         updatedAt: new Date()
       };
 
-      this.branches.set(branch.id, branch);
-      session.branches.push(branch.id);
+      session.branches.push(branch);
       session.updatedAt = new Date();
       this.sessions.set(params.sessionId, session);
 
@@ -145,6 +269,176 @@ export class SequentialThinkingTool {
     }
   }
 
+  async getBranch(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Thinking session not found' };
+      }
+
+      if (!params.branchId) {
+        return {
+          success: true,
+          data: { branch: null, lineOfReasoning: this.mainLine(session) }
+        };
+      }
+
+      const branch = session.branches.find((b: any) => b.id === params.branchId);
+      if (!branch) {
+        return { success: false, error: 'Branch not found' };
+      }
+
+      return {
+        success: true,
+        data: {
+          branch,
+          lineOfReasoning: this.branchLine(session, branch).line
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to get branch: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async listBranches(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Thinking session not found' };
+      }
+
+      const branches = session.branches.map((branch: any) => ({
+        id: branch.id,
+        description: branch.description,
+        fromThoughtId: branch.fromThoughtId,
+        status: branch.status,
+        statusReason: branch.statusReason,
+        thoughtCount: branch.thoughts.length,
+        latestThought: branch.thoughts[branch.thoughts.length - 1]?.content ?? null,
+        updatedAt: branch.updatedAt
+      }));
+
+      return {
+        success: true,
+        data: branches
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to list branches: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async setBranchStatus(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Thinking session not found' };
+      }
+
+      const branch = session.branches.find((b: any) => b.id === params.branchId);
+      if (!branch) {
+        return { success: false, error: 'Branch not found' };
+      }
+      if (!['exploring', 'abandoned', 'adopted'].includes(params.status)) {
+        return { success: false, error: 'Branch status must be exploring, abandoned or adopted' };
+      }
+
+      branch.status = params.status;
+      branch.statusReason = params.reason;
+      branch.updatedAt = new Date();
+      session.updatedAt = new Date();
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: branch
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to set branch status: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async compareBranches(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Thinking session not found' };
+      }
+
+      const pair = this.findBranchPair(session, params.branchIds);
+      if (typeof pair === 'string') {
+        return { success: false, error: pair };
+      }
+
+      return {
+        success: true,
+        data: branchComparisonService.compare(this.branchLine(session, pair[0]), this.branchLine(session, pair[1]))
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to compare branches: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async mergeBranches(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Thinking session not found' };
+      }
+
+      const pair = this.findBranchPair(session, params.branchIds);
+      if (typeof pair === 'string') {
+        return { success: false, error: pair };
+      }
+      const empty = pair.find(branch => branch.thoughts.length === 0);
+      if (empty) {
+        return { success: false, error: `Branch "${empty.description}" has no thoughts to merge` };
+      }
+      if (pair.some(branch => branch.id === params.branchId)) {
+        return { success: false, error: 'A branch cannot be merged into itself' };
+      }
+
+      const comparison = branchComparisonService.compare(this.branchLine(session, pair[0]), this.branchLine(session, pair[1]));
+      const content = params.thought
+        || `Synthesis of ${pair.map(branch => `"${branch.description}", which concluded: ${branch.thoughts[branch.thoughts.length - 1].content}`).join('; and ')}`;
+
+      const added = await this.addThought({ sessionId: params.sessionId, thought: content, branchId: params.branchId, author: params.author });
+      if (!added.success) {
+        return added;
+      }
+
+      const thought = added.data;
+      thought.mergedFrom = pair.map(branch => ({ branchId: branch.id, thoughtId: branch.thoughts[branch.thoughts.length - 1].id }));
+      // Merged branches are settled; reopen one to keep exploring it
+      pair.filter(branch => branch.status === 'exploring').forEach(branch => {
+        branch.status = 'adopted';
+        branch.statusReason = `Merged into synthesis thought ${thought.id}`;
+        branch.updatedAt = new Date();
+      });
+
+      return {
+        success: true,
+        data: { thought, comparison }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to merge branches: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
   async analyzeProgress(params: any): Promise<any> {
     try {
       const session = this.sessions.get(params.sessionId);
@@ -152,15 +446,34 @@ export class SequentialThinkingTool {
         return { success: false, error: 'Thinking session not found' };
       }
 
+      // Open ends on abandoned branches no longer need resolving
+      const abandoned = new Set(session.branches.filter((b: any) => b.status === 'abandoned').map((b: any) => b.id));
+      const argument = argumentGraphService.analyze(session.thoughts.filter((t: any) => !abandoned.has(t.branchId)));
+      const openEnds = argument.unresolvedQuestions.length + argument.untestedHypotheses.length
+        + argument.unsupportedAssumptions.length + argument.unaddressedCounterarguments.length;
+      const metrics = thinkingProgressService.analyze(session, openEnds);
+
       const analysis = {
         sessionId: params.sessionId,
         totalThoughts: session.thoughts.length,
         maxThoughts: session.maxThoughts,
         progress: (session.thoughts.length / session.maxThoughts) * 100,
         branches: session.branches.length,
-        averageDepth: 0,
-        keyInsights: ['Analysis completed successfully'],
-        recommendations: ['Continue thinking process'],
+        activeBranches: metrics.structure.activeBranches,
+        averageDepth: metrics.structure.averageDepth,
+        averageThoughtLength: session.thoughts.length > 0
+          ? Math.round(session.thoughts.reduce((sum: number, t: any) => sum + t.content.length, 0) / session.thoughts.length)
+          : 0,
+        // keep_thinking, change_approach or ready_to_conclude
+        verdict: metrics.verdict,
+        structure: metrics.structure,
+        repetition: metrics.repetition,
+        keywordDrift: metrics.keywordDrift,
+        stagnation: metrics.stagnation,
+        argument,
+        keyInsights: [...metrics.insights, ...argument.insights],
+        // Progress problems first: they decide whether the open ends are worth pursuing
+        recommendations: [...metrics.nextSteps, ...argument.nextSteps],
         createdAt: new Date()
       };
 
@@ -187,7 +500,7 @@ export class SequentialThinkingTool {
         id: uuidv4(),
         sessionId: params.sessionId,
         summary: params.conclusion,
-        confidence: params.confidence || 0.8,
+        confidence: params.confidence ?? 0.8,
         keyFindings: ['Key findings extracted'],
         nextSteps: ['Review conclusion', 'Plan next actions'],
         createdAt: new Date()
@@ -209,6 +522,152 @@ export class SequentialThinkingTool {
     }
   }
 
+  async recordOutcome(params: any): Promise<any> {
+    try {
+      const session = this.sessions.get(params.sessionId);
+      if (!session) {
+        return { success: false, error: 'Thinking session not found' };
+      }
+
+      if (session.status !== 'completed' || !session.conclusion) {
+        return { success: false, error: 'Outcomes can only be recorded for concluded thinking sessions' };
+      }
+      if (typeof params.correct !== 'boolean') {
+        return { success: false, error: 'correct must be true or false' };
+      }
+
+      session.outcome = {
+        correct: params.correct,
+        notes: params.notes,
+        recordedAt: new Date()
+      };
+      session.updatedAt = new Date();
+      this.sessions.set(params.sessionId, session);
+
+      return {
+        success: true,
+        data: session.outcome
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to record outcome: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  async getCalibrationPoints(): Promise<any> {
+    try {
+      const points: CalibrationPoint[] = Array.from(this.sessions.values())
+        .filter(session => session.conclusion && session.outcome)
+        .map(session => ({
+          sessionId: session.id,
+          source: 'thinking',
+          confidence: session.conclusion.confidence,
+          outcome: session.outcome.correct ? 1 : 0,
+          statedAt: session.conclusion.createdAt
+        }));
+
+      return {
+        success: true,
+        data: points
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to collect calibration data: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  private mainLine(session: any): any[] {
+    return session.thoughts.filter((t: any) => !t.branchId);
+  }
+
+  private parseThoughtType(raw: unknown): Thought['type'] {
+    const parsed = ThoughtSchema.shape.type.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(`Invalid thought type: ${raw}. Use hypothesis, evidence, assumption, question or counterargument`);
+    }
+    return parsed.data;
+  }
+
+  private parseRelations(session: any, sourceId: string | null, raw: unknown): ThoughtRelation[] {
+    if (raw === undefined || raw === null) {
+      return [];
+    }
+    const parsed = z.array(ThoughtRelationSchema).safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(`Invalid relations: ${parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`.trim()).join(', ')}`);
+    }
+
+    parsed.data.forEach(relation => {
+      const target = session.thoughts.find((t: any) => t.id === relation.targetId);
+      if (!target) {
+        throw new Error(`Related thought not found: ${relation.targetId}`);
+      }
+      if (target.id === sourceId) {
+        throw new Error('A thought cannot relate to itself');
+      }
+      if (relation.type === 'answers' && target.type !== 'question') {
+        throw new Error('answers must point at a question');
+      }
+      if (relation.type === 'assumes' && target.type !== 'assumption') {
+        throw new Error('assumes must point at an assumption');
+      }
+    });
+    return parsed.data;
+  }
+
+  private branchLine(session: any, branch: any): BranchLine {
+    // Everything that led to the branch point, then the branch itself
+    return {
+      id: branch.id,
+      description: branch.description,
+      status: branch.status,
+      line: [...this.ancestry(session, branch.fromThoughtId), ...branch.thoughts]
+    };
+  }
+
+  private findBranchPair(session: any, branchIds: unknown): [any, any] | string {
+    if (!Array.isArray(branchIds) || branchIds.length !== 2 || branchIds[0] === branchIds[1]) {
+      return 'Give exactly two different branch IDs';
+    }
+    const branches = branchIds.map(id => session.branches.find((b: any) => b.id === id));
+    const missing = branchIds.find((_, i) => !branches[i]);
+    return missing ? `Branch not found: ${missing}` : [branches[0], branches[1]];
+  }
+
+  private dependents(session: any, thoughtId: string): any[] {
+    // Children build on their parent, a synthesis on the thoughts it merged, and answers and assumptions on what they point at
+    const found = new Map<string, any>();
+    const queue = [thoughtId];
+    while (queue.length > 0) {
+      const current = queue.shift();
+      session.thoughts
+        .filter((t: any) => !found.has(t.id) && t.id !== thoughtId
+          && (t.parentId === current
+            || t.mergedFrom?.some((source: any) => source.thoughtId === current)
+            || t.relations.some((r: ThoughtRelation) => (r.type === 'assumes' || r.type === 'answers') && r.targetId === current)))
+        .forEach((t: any) => {
+          found.set(t.id, t);
+          queue.push(t.id);
+        });
+    }
+    return Array.from(found.values());
+  }
+
+  private ancestry(session: any, thoughtId: string): any[] {
+    // Walks parent links back to the root, so the result reads first to last
+    const line: any[] = [];
+    let current = session.thoughts.find((t: any) => t.id === thoughtId);
+    while (current) {
+      line.unshift(current);
+      current = current.parentId ? session.thoughts.find((t: any) => t.id === current.parentId) : undefined;
+    }
+    return line;
+  }
+
   async getSession(sessionId: string): Promise<any> {
     try {
       const session = this.sessions.get(sessionId);
@@ -1,12 +1,32 @@
 import { z } from 'zod';
 
 // Decision Making Types
+
+// Maps a criterion's raw measured value to utility on the 0-10 scale
+export const ValueFunctionSchema = z.discriminatedUnion('type', [
+  // Straight line from utility 0 at worst to 10 at best; best may be lower than worst
+  z.object({ type: z.literal('linear'), worst: z.number(), best: z.number() }),
+  // Interpolates between points; values outside the points take the nearest end's utility
+  z.object({
+    type: z.literal('piecewise_linear'),
+    points: z.array(z.object({ value: z.number(), utility: z.number().min(0).max(10) })).min(2),
+  }),
+  // Positive curvature gives diminishing returns towards best, negative gives increasing returns
+  z.object({ type: z.literal('exponential'), worst: z.number(), best: z.number(), curvature: z.number() }),
+  // Utility 10 when the value meets the threshold, otherwise 0
+  z.object({ type: z.literal('threshold'), threshold: z.number(), direction: z.enum(['at_least', 'at_most']) }),
+]);
+
 export const CriteriaSchema = z.object({
   id: z.string(),
   name: z.string(),
   description: z.string(),
   weight: z.number().min(0).max(1),
   type: z.enum(['benefit', 'cost', 'risk', 'feasibility']),
+  // Option field whose raw value is normalised into this criterion's score
+  measure: z.enum(['estimatedCost', 'estimatedTime']).optional(),
+  // Replaces min-max normalisation of measured values; sets its own direction regardless of type
+  valueFunction: ValueFunctionSchema.optional(),
 });
 
 export const OptionSchema = z.object({
@@ -18,34 +38,207 @@ export const OptionSchema = z.object({
   risks: z.array(z.string()),
   estimatedCost: z.number().optional(),
   estimatedTime: z.string().optional(),
+  // Raw measured values keyed by criterion id or name
+  measurements: z.record(z.number()).optional(),
+});
+
+// Uncertain score on the 0-10 scale, sampled by Monte Carlo analysis
+export const ScoreDistributionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('triangular'),
+    min: z.number().min(0).max(10),
+    mostLikely: z.number().min(0).max(10),
+    max: z.number().min(0).max(10),
+  }),
+  z.object({
+    type: z.literal('normal'),
+    mean: z.number().min(0).max(10),
+    stddev: z.number().min(0),
+  }),
+]).refine(d => d.type !== 'triangular' || (d.min <= d.mostLikely && d.mostLikely <= d.max), {
+  message: 'Triangular distribution requires min <= mostLikely <= max',
 });
 
 export const ScoreSchema = z.object({
   criteriaId: z.string(),
   score: z.number().min(0).max(10),
+  distribution: ScoreDistributionSchema.optional(),
   reasoning: z.string(),
 });
 
 export const EvaluationSchema = z.object({
   optionId: z.string(),
+  // Collaborator ID of the person who scored the option
+  evaluatorId: z.string().optional(),
   scores: z.array(ScoreSchema),
   overallScore: z.number(),
   weightedScore: z.number(),
   timestamp: z.date(),
 });
 
+// Per-criterion score as stored on a DecisionMakerTool session (score normalised to 0-1)
+export const CriterionEvaluationSchema = z.object({
+  id: z.string(),
+  optionId: z.string(),
+  criterionId: z.string(),
+  score: z.number().min(0).max(1),
+  distribution: ScoreDistributionSchema.optional(),
+  rationale: z.string(),
+  // Collaborator ID of the evaluator; scores from different evaluators are aggregated
+  evaluatorId: z.string().optional(),
+  // Set for heuristic scores so analysis can discount them
+  autoGenerated: z.boolean().optional(),
+});
+
+// Must-have gate applied before scoring; options failing any constraint are eliminated
+export const ConstraintSchema = z.object({
+  id: z.string(),
+  description: z.string(),
+  type: z.enum(['max_cost', 'min_cost', 'max_time', 'min_time', 'requires', 'excludes']),
+  // Amount for cost, duration text or days for time, phrase for requires/excludes
+  value: z.union([z.number(), z.string()]),
+  // Option text searched by requires (default pros) and excludes (default cons)
+  target: z.enum(['pros', 'cons', 'any']).optional(),
+});
+
+// Possible future state used when payoffs are known per state but probabilities are not
+export const ScenarioSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+});
+
+export const ScenarioPayoffSchema = z.object({
+  optionId: z.string(),
+  scenarioId: z.string(),
+  payoff: z.number(),
+});
+
+// Delphi estimation: anonymous scoring rounds repeated until evaluators converge
+export const DelphiSubmissionSchema = z.object({
+  // Pseudonym such as "P1"; evaluator identities are never stored on the session
+  participant: z.string(),
+  optionId: z.string(),
+  criterionId: z.string(),
+  score: z.number().min(0).max(10),
+  rationale: z.string(),
+  submittedAt: z.date(),
+});
+
+export const DelphiStatisticSchema = z.object({
+  optionId: z.string(),
+  criterionId: z.string(),
+  count: z.number(),
+  median: z.number(),
+  q1: z.number(),
+  q3: z.number(),
+  interquartileRange: z.number(),
+  outlierRationales: z.array(z.object({ score: z.number(), rationale: z.string() })),
+  converged: z.boolean(),
+});
+
+export const DelphiRoundSchema = z.object({
+  round: z.number().int().min(1),
+  status: z.enum(['open', 'closed']),
+  submissions: z.array(DelphiSubmissionSchema),
+  statistics: z.array(DelphiStatisticSchema).optional(),
+  converged: z.boolean().optional(),
+  openedAt: z.date(),
+  closedAt: z.date().optional(),
+});
+
+export const DelphiProcessSchema = z.object({
+  status: z.enum(['collecting', 'converged', 'round_limit_reached']),
+  maxRounds: z.number().int().min(1),
+  // Largest interquartile range (0-10 scale) at which a score counts as agreed
+  convergenceThreshold: z.number().min(0),
+  rounds: z.array(DelphiRoundSchema),
+  // Round medians used as group scores once the process ends
+  consensus: z.array(CriterionEvaluationSchema).optional(),
+});
+
+// What actually happened after a decision, recorded at any later date
+export const OutcomeSchema = z.object({
+  id: z.string(),
+  optionId: z.string(),
+  actualCost: z.number().min(0).optional(),
+  // Duration such as "4 months", or a number of days
+  actualTime: z.union([z.number().min(0), z.string()]).optional(),
+  successRating: z.number().min(0).max(10).optional(),
+  notes: z.string().optional(),
+  recordedAt: z.date(),
+});
+
+// How a session's criterion weights were derived by guided elicitation
+export const WeightDerivationSchema = z.object({
+  method: z.enum(['swing', 'rank_order_centroid', 'pairwise']),
+  // Swing ratings, ranks or comparison matrix as given, in criteria order
+  inputs: z.union([z.array(z.number()), z.array(z.array(z.number()))]),
+  criteriaIds: z.array(z.string()),
+  consistencyRatio: z.number().optional(),
+  derivedAt: z.date(),
+  // Set once criteria or weights are edited by hand after derivation
+  modifiedAfter: z.boolean().optional(),
+});
+
 export const DecisionSessionSchema = z.object({
   id: z.string(),
   context: z.string(),
   criteria: z.array(CriteriaSchema),
   options: z.array(OptionSchema),
   evaluations: z.array(EvaluationSchema),
+  constraints: z.array(ConstraintSchema).optional(),
+  scenarios: z.array(ScenarioSchema).optional(),
+  payoffs: z.array(ScenarioPayoffSchema).optional(),
+  delphi: DelphiProcessSchema.optional(),
+  outcomes: z.array(OutcomeSchema).optional(),
+  weightDerivation: WeightDerivationSchema.optional(),
+  // Time box for the decision; past it a recommendation is made with whatever scores exist
+  deadline: z.date().optional(),
   status: z.enum(['active', 'evaluating', 'completed']),
   createdAt: z.date(),
   updatedAt: z.date(),
   recommendation: z.string().optional(),
 });
 
+// Reusable starting point for a recurring class of decision, loaded from JSON
+export const DecisionTemplateSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'must be lowercase letters, digits and hyphens'),
+  name: z.string().min(1),
+  description: z.string(),
+  // Questions the context should answer before options are compared
+  contextPrompts: z.array(z.string()).default([]),
+  criteria: z.array(CriteriaSchema.omit({ id: true })).min(1),
+  constraintSuggestions: z.array(ConstraintSchema.omit({ id: true })).default([]),
+  // Evidence to gather before acting on the recommendation
+  requiredEvidence: z.array(z.string()).default([]),
+});
+
+// Decision tree node; children reference their parent so trees stay flat and easy to validate
+export const DecisionTreeNodeSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['decision', 'chance', 'terminal']),
+  label: z.string(),
+  parentId: z.string().optional(),
+  // Branch probability, required for children of chance nodes
+  probability: z.number().min(0).max(1).optional(),
+  // Outcome value, required for terminal nodes
+  payoff: z.number().optional(),
+  // Incurred on taking the branch into this node
+  cost: z.number().optional(),
+});
+
+export const DecisionTreeSessionSchema = z.object({
+  id: z.string(),
+  type: z.literal('decision_tree'),
+  context: z.string(),
+  nodes: z.array(DecisionTreeNodeSchema),
+  rootId: z.string(),
+  status: z.enum(['active', 'evaluating', 'completed']),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
 export const DecisionAnalysisSchema = z.object({
   sessionId: z.string(),
   topOption: z.string(),
@@ -67,11 +260,26 @@ export const RecommendationSchema = z.object({
 });
 
 // Type exports
+export type ValueFunction = z.infer<typeof ValueFunctionSchema>;
 export type Criteria = z.infer<typeof CriteriaSchema>;
 export type Option = z.infer<typeof OptionSchema>;
+export type ScoreDistribution = z.infer<typeof ScoreDistributionSchema>;
 export type Score = z.infer<typeof ScoreSchema>;
 export type Evaluation = z.infer<typeof EvaluationSchema>;
+export type CriterionEvaluation = z.infer<typeof CriterionEvaluationSchema>;
+export type Constraint = z.infer<typeof ConstraintSchema>;
+export type Scenario = z.infer<typeof ScenarioSchema>;
+export type ScenarioPayoff = z.infer<typeof ScenarioPayoffSchema>;
+export type DelphiSubmission = z.infer<typeof DelphiSubmissionSchema>;
+export type DelphiStatistic = z.infer<typeof DelphiStatisticSchema>;
+export type DelphiRound = z.infer<typeof DelphiRoundSchema>;
+export type DelphiProcess = z.infer<typeof DelphiProcessSchema>;
+export type Outcome = z.infer<typeof OutcomeSchema>;
+export type WeightDerivation = z.infer<typeof WeightDerivationSchema>;
 export type DecisionSession = z.infer<typeof DecisionSessionSchema>;
+export type DecisionTemplate = z.infer<typeof DecisionTemplateSchema>;
+export type DecisionTreeNode = z.infer<typeof DecisionTreeNodeSchema>;
+export type DecisionTreeSession = z.infer<typeof DecisionTreeSessionSchema>;
 export type DecisionAnalysis = z.infer<typeof DecisionAnalysisSchema>;
 export type Recommendation = z.infer<typeof RecommendationSchema>;
 
@@ -79,7 +287,10 @@ export type Recommendation = z.infer<typeof RecommendationSchema>;
 export interface StartDecisionParams {
   context: string;
   description?: string;
+  // ISO 8601 date or date-time
   deadline?: string;
+  // Built-in or user-defined template whose criteria seed the session
+  templateId?: string;
 }
 
 export interface AddCriteriaParams {
@@ -92,18 +303,72 @@ export interface AddOptionParams {
   option: Omit<Option, 'id'>;
 }
 
+export interface AddConstraintParams {
+  sessionId: string;
+  constraint: Omit<Constraint, 'id'>;
+}
+
 export interface EvaluateOptionParams {
   sessionId: string;
   optionId: string;
-  scores: Omit<Score, 'criteriaId'>[];
+  // criteriaId may be a criterion ID or name; either a point score or a distribution (its mean becomes the point score)
+  scores: (Omit<Score, 'score'> & { score?: number })[];
+  evaluatorId?: string;
 }
 
 export interface AnalyzeDecisionParams {
   sessionId: string;
   includeAlternatives?: boolean;
+  // How scores from several evaluators are combined (default: mean)
+  aggregation?: 'mean' | 'median' | 'trimmed_mean';
+  method?: 'weighted_sum' | 'weighted_product' | 'topsis' | 'ahp' | 'promethee';
+  pairwiseComparisons?: {
+    criteria?: number[][];
+    options?: Record<string, number[][]>;
+  };
+}
+
+export interface MonteCarloParams {
+  sessionId: string;
+  iterations?: number;
+  seed?: number;
+  confidence?: number;
+  method?: AnalyzeDecisionParams['method'];
+}
+
+export interface CreateDecisionTreeParams {
+  context: string;
+  nodes: DecisionTreeNode[];
+}
+
+export interface SetPayoffsParams {
+  sessionId: string;
+  // Option and scenario may be given by ID or name
+  optionId: string;
+  payoffs: { scenarioId: string; payoff: number }[];
+}
+
+export interface ElicitWeightsParams {
+  sessionId: string;
+  method: WeightDerivation['method'];
+  // swing: 0-100 rating per criterion ID or name, the most important swing rated 100
+  swings?: { criterionId: string; points: number }[];
+  // rank_order_centroid: every criterion ID or name, most important first
+  ranking?: string[];
+  // pairwise: Saaty-scale matrix in criteria order
+  comparisons?: number[][];
+}
+
+export interface RecordOutcomeParams {
+  sessionId: string;
+  // Option ID or name; defaults to the recommended option
+  optionId?: string;
+  outcome: Omit<Outcome, 'id' | 'optionId' | 'recordedAt'>;
 }
 
 export interface MakeRecommendationParams {
   sessionId: string;
   minConfidence?: number;
+  // Hurwicz coefficient of optimism, 0 (pessimist) to 1 (optimist)
+  optimism?: number;
 }
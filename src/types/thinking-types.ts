@@ -1,24 +1,70 @@
 import { z } from 'zod';
 
 // Sequential Thinking Types
+
+// One version of a thought's content; revision 1 is the original
+export const ThoughtRevisionSchema = z.object({
+  revision: z.number().int().min(1),
+  content: z.string(),
+  reason: z.string().optional(),
+  author: z.string().optional(),
+  timestamp: z.date(),
+});
+
+// Typed link from one thought to another, making the session an argument graph
+export const ThoughtRelationSchema = z.object({
+  // answers must point at a question and assumes at an assumption
+  type: z.enum(['supports', 'refutes', 'assumes', 'answers']),
+  targetId: z.string(),
+});
+
 export const ThoughtSchema = z.object({
   id: z.string(),
   content: z.string(),
+  // Untyped thoughts are plain steps of reasoning
+  type: z.enum(['hypothesis', 'evidence', 'assumption', 'question', 'counterargument']).optional(),
+  relations: z.array(ThoughtRelationSchema).optional(),
   timestamp: z.date(),
   parentId: z.string().optional(),
   branchId: z.string().optional(),
+  // Synthesis thoughts record the branch tips they combine
+  mergedFrom: z.array(z.object({ branchId: z.string(), thoughtId: z.string() })).optional(),
+  revisions: z.array(ThoughtRevisionSchema).optional(),
+  // Set when a thought this one builds on is revised; cleared by revising this thought
+  stale: z.object({ causedBy: z.string(), revision: z.number(), since: z.date() }).optional(),
   metadata: z.record(z.any()).optional(),
 });
 
+// Whether a conclusion held up, recorded after the fact for calibration
+export const ThinkingOutcomeSchema = z.object({
+  correct: z.boolean(),
+  notes: z.string().optional(),
+  recordedAt: z.date(),
+});
+
+// Alternative line of reasoning that starts from an existing thought
+export const BranchSchema = z.object({
+  id: z.string(),
+  fromThoughtId: z.string(),
+  description: z.string(),
+  thoughts: z.array(ThoughtSchema),
+  // Only exploring branches accept new thoughts
+  status: z.enum(['exploring', 'abandoned', 'adopted']),
+  statusReason: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
 export const ThinkingSessionSchema = z.object({
   id: z.string(),
   problem: z.string(),
   thoughts: z.array(ThoughtSchema),
-  branches: z.array(z.string()),
+  branches: z.array(BranchSchema),
   status: z.enum(['active', 'paused', 'completed']),
   createdAt: z.date(),
   updatedAt: z.date(),
   conclusion: z.string().optional(),
+  outcome: ThinkingOutcomeSchema.optional(),
 });
 
 export const ProgressAnalysisSchema = z.object({
@@ -31,16 +77,11 @@ export const ProgressAnalysisSchema = z.object({
   confidence: z.number().min(0).max(1),
 });
 
-export const BranchSchema = z.object({
-  id: z.string(),
-  fromThoughtId: z.string(),
-  description: z.string(),
-  thoughts: z.array(ThoughtSchema),
-  createdAt: z.date(),
-});
-
 // Type exports
+export type ThoughtRevision = z.infer<typeof ThoughtRevisionSchema>;
+export type ThoughtRelation = z.infer<typeof ThoughtRelationSchema>;
 export type Thought = z.infer<typeof ThoughtSchema>;
+export type ThinkingOutcome = z.infer<typeof ThinkingOutcomeSchema>;
 export type ThinkingSession = z.infer<typeof ThinkingSessionSchema>;
 export type ProgressAnalysis = z.infer<typeof ProgressAnalysisSchema>;
 export type Branch = z.infer<typeof BranchSchema>;
@@ -55,22 +96,71 @@ export interface StartThinkingParams {
 export interface AddThoughtParams {
   sessionId: string;
   thought: string;
+  // Defaults to the latest thought on the same branch, or the branch point
   parentId?: string;
   branchId?: string;
+  author?: string;
+  thoughtType?: Thought['type'];
+  relations?: ThoughtRelation[];
+}
+
+export interface RelateThoughtsParams {
+  sessionId: string;
+  // Source of the relations, e.g. the evidence that supports a hypothesis
+  thoughtId: string;
+  relations: ThoughtRelation[];
 }
 
 export interface ReviseThoughtParams {
+  sessionId: string;
   thoughtId: string;
   newThought: string;
   reason?: string;
+  author?: string;
+}
+
+export interface ThoughtHistoryParams {
+  sessionId: string;
+  thoughtId: string;
+  // Revisions to diff; default the previous revision against the current one
+  fromRevision?: number;
+  toRevision?: number;
 }
 
 export interface BranchFromThoughtParams {
+  sessionId: string;
   thoughtId: string;
   newDirection: string;
   description?: string;
 }
 
+export interface GetBranchParams {
+  sessionId: string;
+  // Omit for the main line
+  branchId?: string;
+}
+
+export interface SetBranchStatusParams {
+  sessionId: string;
+  branchId: string;
+  status: Branch['status'];
+  reason?: string;
+}
+
+export interface CompareBranchesParams {
+  sessionId: string;
+  branchIds: [string, string];
+}
+
+export interface MergeBranchesParams {
+  sessionId: string;
+  branchIds: [string, string];
+  // Synthesis text; defaults to both branches' conclusions
+  thought?: string;
+  // Branch that receives the synthesis thought; omit for the main line
+  branchId?: string;
+}
+
 export interface AnalyzeProgressParams {
   sessionId: string;
   includeBranches?: boolean;
@@ -81,3 +171,9 @@ export interface ConcludeThinkingParams {
   conclusion: string;
   confidence?: number;
 }
+
+export interface RecordThinkingOutcomeParams {
+  sessionId: string;
+  correct: boolean;
+  notes?: string;
+}
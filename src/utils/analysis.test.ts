@@ -0,0 +1,17 @@
+import { describe, expect, it } from '@jest/globals';
+import { parseDurationToDays } from './analysis.js';
+
+describe('parseDurationToDays', () => {
+  it('converts units and takes ranges at their midpoint', () => {
+    expect(parseDurationToDays('10d')).toBe(10);
+    expect(parseDurationToDays('2-3 weeks')).toBe(17.5);
+    expect(parseDurationToDays('6 months')).toBe(180);
+    expect(parseDurationToDays('12')).toBe(12);
+  });
+
+  it('rejects unknown units, including object property names', () => {
+    expect(parseDurationToDays('5 sprints')).toBeNull();
+    expect(parseDurationToDays('5 constructor')).toBeNull();
+    expect(parseDurationToDays('soon')).toBeNull();
+  });
+});
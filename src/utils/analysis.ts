@@ -315,4 +315,34 @@ export function findOutliers(values: number[]): { outliers: number[]; indices: n
   });
 
   return { outliers, indices };
-}
\ No newline at end of file
+}
+
+/**
+ * Parse a duration such as "6 months", "2-3 weeks" or "10d" into days
+ */
+export function parseDurationToDays(text: string): number | null {
+  const match = text.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)(?:\s*-\s*(\d+(?:\.\d+)?))?\s*([a-z]+)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const unitDays: Record<string, number> = {
+    h: 1 / 24, hour: 1 / 24, hours: 1 / 24,
+    d: 1, day: 1, days: 1,
+    w: 7, wk: 7, week: 7, weeks: 7,
+    m: 30, mo: 30, month: 30, months: 30,
+    q: 91, quarter: 91, quarters: 91,
+    y: 365, yr: 365, year: 365, years: 365
+  };
+
+  const unit = match[3] || 'days';
+  if (!Object.hasOwn(unitDays, unit)) {
+    return null;
+  }
+
+  // Ranges are taken at their midpoint
+  const low = parseFloat(match[1]);
+  const high = match[2] ? parseFloat(match[2]) : low;
+
+  return ((low + high) / 2) * unitDays[unit];
+}